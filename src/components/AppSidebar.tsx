@@ -21,6 +21,7 @@ import {
   SidebarTrigger,
   useSidebar,
 } from "@/components/ui/sidebar";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
 
 const navigation = [
   { title: "Dashboard", url: "/", icon: BarChart3 },
@@ -69,7 +70,8 @@ export function AppSidebar() {
               {navigation.map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild>
-                    <NavLink to={item.url} end className={getNavClasses}>
+                    {/* Carry ?project= along so navigation stays in the active project */}
+                    <NavLink to={{ pathname: item.url, search: location.search }} end className={getNavClasses}>
                       <item.icon className="w-4 h-4" />
                       {!isCollapsed && <span>{item.title}</span>}
                     </NavLink>
@@ -83,10 +85,7 @@ export function AppSidebar() {
         {/* Status indicator */}
         {!isCollapsed && (
           <div className="mt-auto p-4 border-t border-sidebar-border">
-            <div className="flex items-center gap-2 text-xs text-sidebar-foreground/70">
-              <div className="w-2 h-2 bg-success rounded-full"></div>
-              <span>DEM Connected</span>
-            </div>
+            <ConnectionStatus variant="inline" />
           </div>
         )}
       </SidebarContent>
@@ -0,0 +1,35 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const BANDWIDTHS = [5, 10, 20, 40];
+const AUTO = "auto";
+
+interface BandwidthSelectProps {
+  // Undefined means the data-driven default
+  value?: number;
+  onChange: (value?: number) => void;
+  // The bandwidth "Auto" resolved to, shown next to it
+  resolved?: number;
+}
+
+export function BandwidthSelect({ value, onChange, resolved }: BandwidthSelectProps) {
+  return (
+    <Select
+      value={value === undefined ? AUTO : String(value)}
+      onValueChange={(next) => onChange(next === AUTO ? undefined : Number(next))}
+    >
+      <SelectTrigger className="h-8 w-40" aria-label="Hazard smoothing bandwidth">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={AUTO}>
+          {value === undefined && resolved !== undefined ? `Auto (${resolved.toFixed(1)} h)` : "Auto bandwidth"}
+        </SelectItem>
+        {BANDWIDTHS.map((bandwidth) => (
+          <SelectItem key={bandwidth} value={String(bandwidth)}>
+            {bandwidth} h bandwidth
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
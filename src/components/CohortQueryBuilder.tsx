@@ -0,0 +1,411 @@
+import { forwardRef, useState } from "react";
+import { format, isValid, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Badge } from "@/components/ui/badge";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Toggle } from "@/components/ui/toggle";
+import { CalendarIcon, Check, ChevronsUpDown, FolderPlus, Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  COHORT_OPERATORS,
+  emptyGroup,
+  emptyRule,
+  isListOperator,
+  updateNode,
+  valueForOperator,
+  type CohortCombinator,
+  type CohortGroup,
+  type CohortNode,
+  type CohortOperator,
+  type CohortPath,
+  type CohortRule,
+} from "@/lib/cohort-query";
+import type { DatasetField } from "@/lib/dem-client";
+
+const OPERATOR_LABELS: Record<CohortOperator, string> = {
+  "=": "=",
+  "!=": "≠",
+  ">": ">",
+  "<": "<",
+  ">=": "≥",
+  "<=": "≤",
+  in: "in",
+  "not in": "not in",
+  between: "between",
+};
+
+// First entry is what a rule starts with when its field is picked
+const FIELD_OPERATORS: Record<DatasetField["type"], CohortOperator[]> = {
+  categorical: ["in", "not in", "=", "!="],
+  numeric: ["between", ">", "<", ">=", "<=", "=", "!="],
+  date: ["between", ">=", "<="],
+};
+
+// Dates travel as ISO calendar days, the same in the text syntax as on the wire
+const DATE_FORMAT = "yyyy-MM-dd";
+
+// Dates typed in the query tab can be anything, so unparseable ones are shown as typed
+const toDate = (value: string | undefined) => {
+  const date = value ? parseISO(value) : undefined;
+  return date && isValid(date) ? date : undefined;
+};
+const fromDate = (date: Date | undefined) => (date ? format(date, DATE_FORMAT) : "");
+const displayDate = (value: string) => {
+  const date = toDate(value);
+  return date ? format(date, "PP") : value;
+};
+
+interface CohortQueryBuilderProps {
+  query: CohortGroup;
+  onChange: (query: CohortGroup) => void;
+  fields: DatasetField[];
+}
+
+interface NodeEditorProps {
+  path: CohortPath;
+  fields: DatasetField[];
+  update: (path: CohortPath, change: (node: CohortNode) => CohortNode | null) => void;
+}
+
+interface ValueEditorProps<T> {
+  value: T;
+  onChange: (value: T) => void;
+}
+
+/** Chips for the chosen values; the list also takes values typed in that are not among the options */
+function MultiValuePicker({ value, onChange, options = [] }: ValueEditorProps<string[]> & { options?: string[] }) {
+  const [search, setSearch] = useState("");
+  const toggle = (option: string) =>
+    onChange(value.includes(option) ? value.filter((selected) => selected !== option) : [...value, option]);
+  const typed = search.trim();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" className="h-auto min-h-10 w-full justify-between px-3 py-1.5">
+          <div className="flex flex-wrap gap-1">
+            {value.length === 0 && <span className="text-muted-foreground font-normal">Select values</span>}
+            {value.map((selected) => (
+              <Badge key={selected} variant="secondary" className="gap-1">
+                {selected}
+                <span
+                  role="button"
+                  aria-label={`Remove ${selected}`}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    toggle(selected);
+                  }}
+                >
+                  <X className="h-3 w-3" />
+                </span>
+              </Badge>
+            ))}
+          </div>
+          <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search values" value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No matching values.</CommandEmpty>
+            <CommandGroup>
+              {options.map((option) => (
+                <CommandItem key={option} value={option} onSelect={() => toggle(option)}>
+                  <Check className={cn("h-4 w-4 mr-2", value.includes(option) ? "opacity-100" : "opacity-0")} />
+                  {option}
+                </CommandItem>
+              ))}
+              {typed && !options.includes(typed) && !value.includes(typed) && (
+                <CommandItem
+                  value={typed}
+                  onSelect={() => {
+                    toggle(typed);
+                    setSearch("");
+                  }}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add "{typed}"
+                </CommandItem>
+              )}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function NumberRange({ value, onChange, unit }: ValueEditorProps<string[]> & { unit?: string }) {
+  const [min = "", max = ""] = value;
+  const inverted = min !== "" && max !== "" && Number(min) > Number(max);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        placeholder={unit ? `Min (${unit})` : "Min"}
+        aria-label="Minimum"
+        aria-invalid={inverted}
+        className={cn(inverted && "border-destructive")}
+        value={min}
+        onChange={(e) => onChange([e.target.value, max])}
+      />
+      <span className="text-sm text-muted-foreground">to</span>
+      <Input
+        type="number"
+        placeholder={unit ? `Max (${unit})` : "Max"}
+        aria-label="Maximum"
+        aria-invalid={inverted}
+        className={cn(inverted && "border-destructive")}
+        title={inverted ? "Minimum is above maximum" : undefined}
+        value={max}
+        onChange={(e) => onChange([min, e.target.value])}
+      />
+    </div>
+  );
+}
+
+// Forwards ref and props so it can be a PopoverTrigger child
+const DatePickerButton = forwardRef<HTMLButtonElement, ButtonProps & { label?: string }>(({ label, ...props }, ref) => (
+  <Button
+    ref={ref}
+    variant="outline"
+    className={cn("w-full justify-start font-normal", !label && "text-muted-foreground")}
+    {...props}
+  >
+    <CalendarIcon className="h-4 w-4 mr-2" />
+    {label ?? "Pick a date"}
+  </Button>
+));
+DatePickerButton.displayName = "DatePickerButton";
+
+function DateRangePicker({ value, onChange }: ValueEditorProps<string[]>) {
+  const [from = "", to = ""] = value;
+  const selected: DateRange | undefined = toDate(from) ? { from: toDate(from), to: toDate(to) } : undefined;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <DatePickerButton label={from ? `${displayDate(from)} – ${to ? displayDate(to) : "…"}` : undefined} />
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={selected?.from}
+          selected={selected}
+          onSelect={(range) => onChange([fromDate(range?.from), fromDate(range?.to)])}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function DatePicker({ value, onChange }: ValueEditorProps<string>) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <DatePickerButton label={value ? displayDate(value) : undefined} />
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          defaultMonth={toDate(value)}
+          selected={toDate(value)}
+          onSelect={(date) => onChange(fromDate(date))}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function RuleValue({ rule, field, onChange }: { rule: CohortRule; field?: DatasetField; onChange: (value: string | string[]) => void }) {
+  if (!field) return null;
+  const list = Array.isArray(rule.value) ? rule.value : [rule.value];
+  const single = list[0] ?? "";
+
+  if (isListOperator(rule.operator)) return <MultiValuePicker value={list} onChange={onChange} options={field.domain} />;
+
+  if (field.type === "date") {
+    return rule.operator === "between" ? (
+      <DateRangePicker value={list} onChange={onChange} />
+    ) : (
+      <DatePicker value={single} onChange={onChange} />
+    );
+  }
+
+  if (rule.operator === "between") return <NumberRange value={list} onChange={onChange} unit={field.unit} />;
+
+  // Categories too rare to list fall through to free text
+  if (field.type === "categorical" && field.domain) {
+    return (
+      <Select value={single} onValueChange={onChange}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Select value" />
+        </SelectTrigger>
+        <SelectContent>
+          {field.domain.map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      type={field.type === "numeric" ? "number" : "text"}
+      placeholder={field.unit ? `Enter value (${field.unit})` : "Enter value"}
+      value={single}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
+
+function RuleRow({ rule, path, fields, update }: NodeEditorProps & { rule: CohortRule }) {
+  const setRule = (changes: Partial<CohortRule>) => update(path, (node) => ({ ...(node as CohortRule), ...changes }));
+  const field = fields.find((candidate) => candidate.name === rule.field);
+  // Rules typed in the query tab may name a field or operator the builder would not offer
+  const operators = field ? FIELD_OPERATORS[field.type] : COHORT_OPERATORS;
+  const shownOperators = operators.includes(rule.operator) ? operators : [...operators, rule.operator];
+
+  const changeField = (name: string) => {
+    const next = fields.find((candidate) => candidate.name === name);
+    const allowed = next ? FIELD_OPERATORS[next.type] : COHORT_OPERATORS;
+    const operator = allowed.includes(rule.operator) ? rule.operator : allowed[0];
+    // Values of the previous field mean nothing for the new one
+    setRule({ field: name, operator, value: valueForOperator("", operator) });
+  };
+
+  const changeOperator = (operator: CohortOperator) => setRule({ operator, value: valueForOperator(rule.value, operator) });
+
+  return (
+    <div className="grid grid-cols-12 gap-2 items-end">
+      <div className="col-span-4">
+        <Label>Field</Label>
+        <Select value={rule.field} onValueChange={changeField}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select field" />
+          </SelectTrigger>
+          <SelectContent>
+            {fields.map((option) => (
+              <SelectItem key={option.name} value={option.name}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="col-span-2">
+        <Label>Operator</Label>
+        <Select value={rule.operator} onValueChange={(operator) => changeOperator(operator as CohortOperator)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {shownOperators.map((operator) => (
+              <SelectItem key={operator} value={operator}>
+                {OPERATOR_LABELS[operator]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="col-span-5">
+        <Label>Value</Label>
+        <RuleValue rule={rule} field={field} onChange={(value) => setRule({ value })} />
+      </div>
+
+      <div className="col-span-1">
+        <Button onClick={() => update(path, () => null)} size="sm" variant="ghost" className="h-10 w-10 p-0" aria-label="Remove rule">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function RuleGroup({ group, path, fields, update }: NodeEditorProps & { group: CohortGroup }) {
+  const isRoot = path.length === 0;
+  const setGroup = (changes: Partial<CohortGroup>) => update(path, (node) => ({ ...(node as CohortGroup), ...changes }));
+  const addChild = (child: CohortNode) => setGroup({ children: [...group.children, child] });
+
+  return (
+    <div className={cn("space-y-3", !isRoot && "border-l-2 border-primary/30 pl-4 py-1")}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {!isRoot && (
+            <Toggle
+              size="sm"
+              variant="outline"
+              pressed={!!group.negated}
+              onPressedChange={(negated) => setGroup({ negated })}
+              aria-label="Negate group"
+            >
+              NOT
+            </Toggle>
+          )}
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={group.combinator}
+            // Radix clears the value when the pressed item is clicked again; keep the current one
+            onValueChange={(combinator) => combinator && setGroup({ combinator: combinator as CohortCombinator })}
+          >
+            <ToggleGroupItem value="and" aria-label="Match all rules">AND</ToggleGroupItem>
+            <ToggleGroupItem value="or" aria-label="Match any rule">OR</ToggleGroupItem>
+          </ToggleGroup>
+          <span className="text-xs text-muted-foreground">
+            {group.combinator === "and" ? "all of" : "any of"}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => addChild(emptyRule())} size="sm" variant="outline">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rule
+          </Button>
+          <Button onClick={() => addChild({ ...emptyGroup(), children: [emptyRule()] })} size="sm" variant="outline">
+            <FolderPlus className="h-4 w-4 mr-1" />
+            Add Group
+          </Button>
+          {!isRoot && (
+            <Button onClick={() => update(path, () => null)} size="sm" variant="ghost" className="h-9 w-9 p-0" aria-label="Remove group">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {group.children.map((child, index) =>
+        child.type === "rule" ? (
+          <RuleRow key={index} rule={child} path={[...path, index]} fields={fields} update={update} />
+        ) : (
+          <RuleGroup key={index} group={child} path={[...path, index]} fields={fields} update={update} />
+        )
+      )}
+    </div>
+  );
+}
+
+/** Visual editor for a nested AND/OR cohort query */
+export function CohortQueryBuilder({ query, onChange, fields }: CohortQueryBuilderProps) {
+  const update = (path: CohortPath, change: (node: CohortNode) => CohortNode | null) =>
+    onChange(updateNode(query, path, change));
+
+  return <RuleGroup group={query} path={[]} fields={fields} update={update} />;
+}
@@ -0,0 +1,102 @@
+import { formatDistanceToNow } from "date-fns";
+import { RefreshCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { useDemHealth } from "@/hooks/use-dem-health";
+import { healthMonitor, type HealthStatus } from "@/lib/dem-health";
+
+const STATUS_DISPLAY: Record<HealthStatus, { label: string; dot: string; badge: string }> = {
+  unknown: { label: "Checking DEM…", dot: "bg-muted-foreground", badge: "" },
+  connected: { label: "DEM Connected", dot: "bg-success", badge: "status-operational" },
+  degraded: { label: "DEM Degraded", dot: "bg-warning", badge: "status-warning" },
+  offline: { label: "DEM Offline", dot: "bg-destructive", badge: "status-failed" },
+};
+
+const since = (timestamp: number | null) =>
+  timestamp ? formatDistanceToNow(timestamp, { addSuffix: true }) : "never";
+
+interface ConnectionStatusProps {
+  variant?: "badge" | "inline";
+}
+
+export function ConnectionStatus({ variant = "badge" }: ConnectionStatusProps) {
+  const health = useDemHealth();
+  const display = STATUS_DISPLAY[health.status];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        {variant === "badge" ? (
+          <button type="button">
+            <Badge variant="outline" className={`cursor-pointer ${display.badge}`}>
+              <span className={`mr-1.5 h-2 w-2 rounded-full ${display.dot}`} />
+              {display.label}
+            </Badge>
+          </button>
+        ) : (
+          <button type="button" className="flex items-center gap-2 text-xs text-sidebar-foreground/70 hover:text-sidebar-foreground">
+            <span className={`w-2 h-2 rounded-full ${display.dot}`} />
+            <span>{display.label}</span>
+          </button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-medium">{display.label}</h4>
+            <p className="text-xs text-muted-foreground">Project {health.projectId ?? "—"}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={health.checking}
+            onClick={() => healthMonitor.refresh()}
+          >
+            <RefreshCcw className={`h-4 w-4 ${health.checking ? "animate-spin" : ""}`} />
+            <span className="sr-only">Check now</span>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <span className="text-muted-foreground">Latency</span>
+          <span className="text-right font-medium">{health.latencyMs !== null ? `${health.latencyMs} ms` : "—"}</span>
+          <span className="text-muted-foreground">Last success</span>
+          <span className="text-right font-medium">{since(health.lastSuccessAt)}</span>
+          <span className="text-muted-foreground">Last check</span>
+          <span className="text-right font-medium">{since(health.lastCheckedAt)}</span>
+        </div>
+
+        {health.lastError && (
+          <p className="text-xs text-destructive">{health.lastError}</p>
+        )}
+
+        <Separator />
+
+        <div className="space-y-2">
+          <h5 className="text-xs font-medium text-muted-foreground">Federation peers</h5>
+          {health.peers.length === 0 && (
+            <p className="text-xs text-muted-foreground">No peers reported yet.</p>
+          )}
+          {health.peers.map((peer) => (
+            <div key={peer.id} className="text-xs">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className={`w-2 h-2 rounded-full ${peer.reachable ? "bg-success" : "bg-destructive"}`} />
+                  <span className="font-mono">{peer.id}</span>
+                </div>
+                <span className="text-muted-foreground">
+                  {peer.reachable ? "reachable" : `seen ${since(peer.lastSeenAt)}`}
+                </span>
+              </div>
+              {!peer.reachable && peer.lastError && (
+                <p className="ml-4 text-muted-foreground">{peer.lastError}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,11 +2,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Clock, TrendingUp, AlertTriangle, Users, Activity, Shield } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 
+// Lifetimes are null when the survival curve never falls that far within follow-up
 interface KpiData {
-  medianLife: number;
-  p10Life: number;
-  p90Life: number;
-  mtbf: number;
+  medianLife: number | null;
+  p10Life: number | null;
+  p90Life: number | null;
+  mtbf: number | null;
+  // How mtbf was derived, e.g. "RMST to 150 h"
+  mtbfMethod?: string;
   censored: number;
   cohortSize: number;
 }
@@ -22,6 +25,7 @@ const KpiCard = ({
   unit, 
   icon: Icon, 
   trend, 
+  note,
   loading 
 }: {
   title: string;
@@ -29,6 +33,7 @@ const KpiCard = ({
   unit: string;
   icon: any;
   trend?: "up" | "down" | "neutral";
+  note?: string;
   loading?: boolean;
 }) => (
   <Card className="card-metric">
@@ -58,41 +63,45 @@ const KpiCard = ({
               {trend === 'up' ? 'Improving' : trend === 'down' ? 'Declining' : 'Stable'}
             </p>
           )}
+          {note && <p className="text-xs text-muted-foreground mt-1">{note}</p>}
         </div>
       )}
     </CardContent>
   </Card>
 );
 
+const lifetime = (value?: number | null) => (value === null || value === undefined ? "—" : Math.round(value));
+
 export function KpiCards({ data, loading }: KpiCardsProps) {
   const kpis = [
     {
       title: "Median Life (P50)",
-      value: data?.medianLife || 0,
+      value: data ? lifetime(data.medianLife) : 0,
       unit: "hours",
       icon: Clock,
       trend: "neutral" as const
     },
     {
       title: "P10 Life",
-      value: data?.p10Life || 0,
+      value: data ? lifetime(data.p10Life) : 0,
       unit: "hours", 
       icon: Shield,
       trend: "up" as const
     },
     {
       title: "P90 Life", 
-      value: data?.p90Life || 0,
+      value: data ? lifetime(data.p90Life) : 0,
       unit: "hours",
       icon: TrendingUp,
       trend: "neutral" as const
     },
     {
       title: "MTBF",
-      value: data?.mtbf || 0,
+      value: data ? lifetime(data.mtbf) : 0,
       unit: "hours",
       icon: Activity,
-      trend: "up" as const
+      trend: "up" as const,
+      note: data?.mtbfMethod
     },
     {
       title: "% Censored",
@@ -120,6 +129,7 @@ export function KpiCards({ data, loading }: KpiCardsProps) {
           unit={kpi.unit}
           icon={kpi.icon}
           trend={kpi.trend}
+          note={kpi.note}
           loading={loading}
         />
       ))}
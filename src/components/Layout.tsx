@@ -1,5 +1,6 @@
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
+import { ProjectPicker } from "@/components/ProjectPicker";
 import { Button } from "@/components/ui/button";
 import { Moon, Sun } from "lucide-react";
 import { useTheme } from "next-themes";
@@ -22,7 +23,7 @@ export function Layout({ children }: { children: React.ReactNode }) {
                 <nav className="flex items-center space-x-4 text-sm">
                   <span className="text-muted-foreground">NeXTMatrix</span>
                   <span className="text-muted-foreground">/</span>
-                  <span className="text-foreground font-medium">Oil Bit Survival</span>
+                  <ProjectPicker />
                 </nav>
               </div>
               
@@ -0,0 +1,34 @@
+import { FolderKanban } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useProject } from "@/hooks/use-project";
+
+export function ProjectPicker() {
+  const { projectId, project, projects, isLoading, setProjectId } = useProject();
+
+  return (
+    <Select value={projectId} onValueChange={setProjectId}>
+      <SelectTrigger className="h-8 w-auto min-w-[10rem] gap-2 border-none bg-transparent px-2 font-medium shadow-none focus:ring-0">
+        <FolderKanban className="h-4 w-4 text-muted-foreground" />
+        <SelectValue placeholder={isLoading ? "Loading projects…" : "Select project"}>
+          {project?.name ?? projectId}
+        </SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {/* Keep a project named in the URL selectable even when the DEM does not list it */}
+        {!project && (
+          <SelectItem value={projectId}>{projectId}</SelectItem>
+        )}
+        {projects.map((item) => (
+          <SelectItem key={item.id} value={item.id}>
+            <div className="flex flex-col">
+              <span>{item.name}</span>
+              {item.description && (
+                <span className="text-xs text-muted-foreground">{item.description}</span>
+              )}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
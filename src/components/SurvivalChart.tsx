@@ -1,10 +1,27 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { Skeleton } from "@/components/ui/skeleton";
+import type { ReactNode } from "react";
+import { seriesColor } from "@/lib/chart-palette";
+import { mergeCurves, valueAt } from "@/lib/survival-curves";
+import { numberAtRisk, type RiskTable } from "@/lib/survival-km";
 
 interface SurvivalData {
-  km: { t: number[]; s: number[] };
-  hazard: { t: number[]; h: number[] };
+  // Drawn as a step function unless `smooth` (a parametric curve)
+  km: { t: number[]; s: number[]; lower?: number[]; upper?: number[]; smooth?: boolean };
+  hazard: { t: number[]; h: number[]; bandwidth?: number };
+  // Shown next to the cohort in the legend when present
+  n?: number;
+  censored?: number;
+  // Source of the censoring ticks and the number-at-risk table
+  riskTable?: RiskTable;
+}
+
+// Parametric model drawn over the empirical curves, evaluated on their merged time grid
+interface FittedCurve {
+  name: string;
+  survival: (t: number) => number;
+  hazard: (t: number) => number;
 }
 
 interface SurvivalChartProps {
@@ -12,8 +29,48 @@ interface SurvivalChartProps {
   loading?: boolean;
   type?: "survival" | "hazard";
   cohortNames?: string[];
+  // Defaults to the estimator implied by `type`
+  title?: string;
+  // Controls rendered at the right of the header, e.g. a smoothing bandwidth picker
+  actions?: ReactNode;
+  // Shade the pointwise confidence band of survival curves that carry one
+  showConfidence?: boolean;
+  // Table of runs still at risk under the x-axis ticks, for cohorts that carry a risk table
+  showAtRisk?: boolean;
+  fittedCurves?: FittedCurve[];
+}
+
+const bandKey = (cohortName: string) => `${cohortName} CI`;
+const censorKey = (cohortName: string) => `${cohortName} censored`;
+
+// Fixed so the number-at-risk table can line up with the plot area
+const Y_AXIS_WIDTH = 60;
+const CHART_MARGIN = { top: 5, right: 5, bottom: 5, left: 5 };
+const TICK_COUNT = 6;
+
+// Round tick spacing (1, 2 or 5 × 10^k) covering [0, max] in about TICK_COUNT steps
+function timeTicks(max: number): number[] {
+  if (!(max > 0)) return [0];
+  const rough = max / TICK_COUNT;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough) ?? rough;
+  return Array.from({ length: Math.ceil(max / step - 1e-9) + 1 }, (_, index) => index * step);
+}
+
+interface CensorTickProps {
+  cx?: number;
+  cy?: number;
+  value?: number | null;
+  index?: number;
+  color?: string;
 }
 
+// Short vertical mark at each censored time; recharts calls this for every point of the series
+const CensorTick = ({ cx, cy, value, color }: CensorTickProps) =>
+  value === undefined || value === null || typeof cx !== "number" || typeof cy !== "number"
+    ? <g />
+    : <path d={`M${cx},${cy - 5}V${cy + 5}`} stroke={color} strokeWidth={1.5} />;
+
 const CustomTooltip = ({ active, payload, label, type }: any) => {
   if (active && payload && payload.length) {
     return (
@@ -24,9 +81,11 @@ const CustomTooltip = ({ active, payload, label, type }: any) => {
         {payload.map((entry: any, index: number) => (
           <p key={index} className="text-sm" style={{ color: entry.color }}>
             {entry.name}: <span className="font-medium">
-              {type === "survival" 
-                ? `${(entry.value * 100).toFixed(1)}%`
-                : entry.value.toFixed(4)
+              {Array.isArray(entry.value)
+                ? `${(entry.value[0] * 100).toFixed(1)}% – ${(entry.value[1] * 100).toFixed(1)}%`
+                : type === "survival" 
+                  ? `${(entry.value * 100).toFixed(1)}%`
+                  : entry.value.toFixed(4)
               }
             </span>
           </p>
@@ -37,13 +96,15 @@ const CustomTooltip = ({ active, payload, label, type }: any) => {
   return null;
 };
 
-export function SurvivalChart({ data, loading, type = "survival", cohortNames }: SurvivalChartProps) {
+export function SurvivalChart({ data, loading, type = "survival", cohortNames, title, actions, showConfidence = true, showAtRisk = false, fittedCurves = [] }: SurvivalChartProps) {
+  const chartTitle = title ?? (type === "survival" ? "Kaplan-Meier Survival Curve" : "Hazard Rate");
+
   if (loading) {
     return (
       <Card className="card-industrial">
         <CardHeader>
           <CardTitle className="text-industrial">
-            {type === "survival" ? "Kaplan-Meier Survival Curve" : "Hazard Rate"}
+            {chartTitle}
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -53,48 +114,108 @@ export function SurvivalChart({ data, loading, type = "survival", cohortNames }:
     );
   }
 
+  const cohortLabel = (index: number) => cohortNames?.[index] || `Cohort ${index + 1}`;
+
+  // Censoring ticks only make sense on an empirical step curve
+  const censoredAt = (data ?? []).map((cohortData) =>
+    cohortData.riskTable && !cohortData.km.smooth
+      ? new Set(cohortData.riskTable.t.filter((_, index) => cohortData.riskTable!.censored[index] > 0))
+      : null
+  );
+
+  // Cohorts come on their own time grids; put them all on the union of their time points
+  const curves = (data ?? []).map((cohortData) =>
+    type === "survival"
+      ? { t: cohortData.km.t, values: cohortData.km.s, smooth: cohortData.km.smooth }
+      : { t: cohortData.hazard.t, values: cohortData.hazard.h, smooth: true }
+  );
+  const merged = mergeCurves(curves);
+
   // Transform data for recharts
-  const chartData = data?.[0] ? 
-    data[0][type === "survival" ? "km" : "hazard"].t.map((time, index) => {
-      const point: any = { time };
-      
-      data.forEach((cohortData, cohortIndex) => {
-        const values = cohortData[type === "survival" ? "km" : "hazard"];
-        const cohortName = cohortNames?.[cohortIndex] || `Cohort ${cohortIndex + 1}`;
-        point[cohortName] = values[type === "survival" ? "s" : "h"][index];
-      });
-      
-      return point;
-    }) : [];
-
-  const colors = ["hsl(var(--chart-primary))", "hsl(var(--chart-secondary))", "hsl(var(--chart-tertiary))"];
+  const chartData = merged.t.map((time, index) => {
+    const point: any = { time };
+
+    data?.forEach((cohortData, cohortIndex) => {
+      const value = merged.values[cohortIndex][index];
+      if (value === null) return;
+      const cohortName = cohortLabel(cohortIndex);
+      point[cohortName] = value;
+      if (type === "survival" && showConfidence && cohortData.km.lower && cohortData.km.upper) {
+        const { t, smooth } = cohortData.km;
+        point[bandKey(cohortName)] = [
+          valueAt({ t, values: cohortData.km.lower, smooth }, time),
+          valueAt({ t, values: cohortData.km.upper, smooth }, time)
+        ];
+      }
+      if (type === "survival" && censoredAt[cohortIndex]?.has(time)) {
+        point[censorKey(cohortName)] = value;
+      }
+    });
+
+    fittedCurves.forEach((curve) => {
+      point[curve.name] = type === "survival" ? curve.survival(time) : curve.hazard(time);
+    });
+
+    return point;
+  });
+
+  const maxTime = chartData.length > 0 ? chartData[chartData.length - 1].time : 0;
+  const ticks = timeTicks(maxTime);
+  const atRiskRows = showAtRisk
+    ? (data ?? []).flatMap((cohortData, index) =>
+        cohortData.riskTable
+          ? [{ name: cohortLabel(index), color: seriesColor(index), counts: ticks.map((tick) => numberAtRisk(cohortData.riskTable!, tick)) }]
+          : []
+      )
+    : [];
+
+  // Legend entries are series names; cohorts that report size and censoring get them appended
+  const legendLabel = (value: string) => {
+    const cohortData = data?.find((_, index) => cohortLabel(index) === value);
+    if (cohortData?.n === undefined) return value;
+    const censored = cohortData.censored !== undefined ? `, ${(cohortData.censored * 100).toFixed(1)}% censored` : "";
+    return `${value} (n=${cohortData.n.toLocaleString()}${censored})`;
+  };
 
   return (
     <Card className="card-industrial">
       <CardHeader>
-        <CardTitle className="text-industrial">
-          {type === "survival" ? "Kaplan-Meier Survival Curve" : "Hazard Rate"}
-        </CardTitle>
+        <div className="flex items-start justify-between gap-4">
+          <CardTitle className="text-industrial">
+            {chartTitle}
+          </CardTitle>
+          {actions}
+        </div>
         <p className="text-sm text-muted-foreground">
           {type === "survival" 
             ? "Probability of bit survival over time" 
             : "Instantaneous failure rate over time"
           }
+          {type === "hazard" && data?.some(cohortData => cohortData.hazard.bandwidth !== undefined) && (
+            " · kernel-smoothed"
+          )}
+          {type === "survival" && showConfidence && data?.some(cohortData => cohortData.km.lower) && (
+            " · shaded bands are 95% log-log confidence intervals"
+          )}
         </p>
       </CardHeader>
       <CardContent>
         <div className="chart-container-lg">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData}>
+            <ComposedChart data={chartData} margin={CHART_MARGIN}>
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" />
               <XAxis 
                 dataKey="time" 
+                type="number"
+                domain={[0, ticks[ticks.length - 1]]}
+                ticks={ticks}
                 axisLine={false}
                 tickLine={false}
                 tick={{ fontSize: 12, fill: "hsl(var(--muted-foreground))" }}
                 label={{ value: "Time (hours)", position: "insideBottom", offset: -5, style: { textAnchor: "middle", fill: "hsl(var(--muted-foreground))" } }}
               />
               <YAxis 
+                width={Y_AXIS_WIDTH}
                 axisLine={false}
                 tickLine={false}
                 tick={{ fontSize: 12, fill: "hsl(var(--muted-foreground))" }}
@@ -107,26 +228,107 @@ export function SurvivalChart({ data, loading, type = "survival", cohortNames }:
                 domain={type === "survival" ? [0, 1] : [0, "dataMax"]}
               />
               <Tooltip content={<CustomTooltip type={type} />} />
-              <Legend />
+              <Legend formatter={legendLabel} />
               
-              {data?.map((_, index) => {
-                const cohortName = cohortNames?.[index] || `Cohort ${index + 1}`;
+              {/* Bands first so every curve is drawn on top of them */}
+              {type === "survival" && showConfidence && data?.map((cohortData, index) => {
+                if (!cohortData.km.lower || !cohortData.km.upper) return null;
+                const cohortName = cohortLabel(index);
+                return (
+                  <Area
+                    key={bandKey(cohortName)}
+                    type={cohortData.km.smooth ? "monotone" : "stepAfter"}
+                    dataKey={bandKey(cohortName)}
+                    stroke="none"
+                    fill={seriesColor(index)}
+                    fillOpacity={0.15}
+                    legendType="none"
+                    activeDot={false}
+                    isAnimationActive={false}
+                  />
+                );
+              })}
+
+              {data?.map((cohortData, index) => {
+                const cohortName = cohortLabel(index);
+                // Survival estimates are step functions; hazards and parametric curves are smooth
+                const step = type === "survival" && !cohortData.km.smooth;
                 return (
                   <Line
                     key={cohortName}
-                    type="monotone"
+                    type={step ? "stepAfter" : "monotone"}
                     dataKey={cohortName}
-                    stroke={colors[index % colors.length]}
+                    stroke={seriesColor(index)}
                     strokeWidth={2}
-                    dot={{ fill: colors[index % colors.length], strokeWidth: 2, r: 3 }}
-                    activeDot={{ r: 5, fill: colors[index % colors.length] }}
+                    dot={false}
+                    activeDot={{ r: 5, fill: seriesColor(index) }}
                   />
                 );
               })}
-            </LineChart>
+
+              {type === "survival" && data?.map((_, index) => {
+                if (!censoredAt[index]) return null;
+                const cohortName = cohortLabel(index);
+                return (
+                  <Line
+                    key={censorKey(cohortName)}
+                    dataKey={censorKey(cohortName)}
+                    stroke="none"
+                    dot={(props: CensorTickProps) => (
+                      <CensorTick key={`${censorKey(cohortName)}-${props.index}`} {...props} color={seriesColor(index)} />
+                    )}
+                    activeDot={false}
+                    legendType="none"
+                    tooltipType="none"
+                    isAnimationActive={false}
+                  />
+                );
+              })}
+
+              {fittedCurves.map((curve, index) => (
+                <Line
+                  key={curve.name}
+                  type="monotone"
+                  dataKey={curve.name}
+                  stroke={seriesColor(index + (data?.length ?? 0))}
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  activeDot={{ r: 4 }}
+                  isAnimationActive={false}
+                />
+              ))}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
+        {atRiskRows.length > 0 && (
+          <div className="mt-2 space-y-1" aria-label="Number at risk">
+            <p className="text-label">Number at risk</p>
+            {atRiskRows.map((row) => (
+              <div key={row.name}>
+                <p className="text-xs font-medium" style={{ color: row.color }}>{row.name}</p>
+                {/* Same horizontal insets as the plot area, so each count sits under its tick */}
+                <div
+                  className="relative h-4 text-xs text-muted-foreground"
+                  style={{ marginLeft: CHART_MARGIN.left + Y_AXIS_WIDTH, marginRight: CHART_MARGIN.right }}
+                >
+                  {row.counts.map((count, index) => (
+                    <span
+                      key={ticks[index]}
+                      className="absolute -translate-x-1/2 font-mono"
+                      style={{ left: `${(ticks[index] / ticks[ticks.length - 1]) * 100}%` }}
+                    >
+                      {count.toLocaleString()}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+export type { FittedCurve };
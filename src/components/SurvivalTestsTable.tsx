@@ -0,0 +1,101 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { RiskTable } from "@/lib/survival-km";
+import { compareSurvivalAll } from "@/lib/survival-tests";
+
+interface ComparedCohort {
+  name: string;
+  // Cohorts released without a risk table cannot be tested and are left out
+  riskTable?: RiskTable;
+}
+
+interface SurvivalTestsTableProps {
+  cohorts: ComparedCohort[];
+}
+
+const SIGNIFICANCE = 0.05;
+
+const formatP = (p: number) => (p < 0.001 ? "<0.001" : p.toFixed(3));
+
+export function SurvivalTestsTable({ cohorts }: SurvivalTestsTableProps) {
+  const testable = useMemo(() => cohorts.filter((cohort) => cohort.riskTable), [cohorts]);
+  const results = useMemo(() => compareSurvivalAll(testable.map((cohort) => cohort.riskTable!)), [testable]);
+  // Observed and expected counts do not depend on the weight
+  const groups = results[0]?.groups ?? [];
+
+  return (
+    <Card className="card-industrial">
+      <CardHeader>
+        <CardTitle className="text-industrial">Cohort Comparison Tests</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Tests that all plotted cohorts share one survival curve
+        </p>
+      </CardHeader>
+      <CardContent>
+        {testable.length < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            Overlay at least two cohorts with released risk tables to compare them.
+          </p>
+        ) : results.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No failures in the plotted cohorts, so there is nothing to compare.
+          </p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Test</TableHead>
+                  <TableHead className="text-right">χ²</TableHead>
+                  <TableHead className="text-right">df</TableHead>
+                  <TableHead className="text-right">p</TableHead>
+                  <TableHead className="text-right">Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.test}>
+                    <TableCell className="font-medium">{result.test}</TableCell>
+                    <TableCell className="text-right font-mono">{result.chisq.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">{result.df}</TableCell>
+                    <TableCell className="text-right font-mono">{formatP(result.p)}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant="outline" className={result.p < SIGNIFICANCE ? "status-warning" : "status-operational"}>
+                        {result.p < SIGNIFICANCE ? "Differ" : "No difference"}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Cohort</TableHead>
+                  <TableHead className="text-right">Observed</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">O / E</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map((group, index) => (
+                  <TableRow key={testable[index].name}>
+                    <TableCell className="font-medium">{testable[index].name}</TableCell>
+                    <TableCell className="text-right font-mono">{group.observed.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-mono">{group.expected.toFixed(1)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {group.expected > 0 ? (group.observed / group.expected).toFixed(2) : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
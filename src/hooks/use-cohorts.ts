@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react"
+import { cohortStore, MAX_OVERLAY_COHORTS, type Cohort, type CohortSync } from "@/lib/cohort-store"
+import { useProject } from "@/hooks/use-project"
+
+const NO_COHORTS: Cohort[] = []
+const NO_OVERLAYS: string[] = []
+const NOT_SYNCED: CohortSync = { status: "local" }
+
+/** Saved cohorts and Dashboard overlays of the current project */
+export function useCohorts() {
+  const { projectId } = useProject()
+  const state = useSyncExternalStore(cohortStore.subscribe, cohortStore.getState)
+  const cohorts = state.cohorts[projectId] ?? NO_COHORTS
+  const overlayIds = state.overlays[projectId] ?? NO_OVERLAYS
+  const sync = state.sync[projectId] ?? NOT_SYNCED
+
+  const syncCohorts = useCallback(() => cohortStore.sync(projectId), [projectId])
+
+  // Once per project and session; after that only when asked
+  useEffect(() => {
+    if (!cohortStore.getState().sync[projectId]) void syncCohorts()
+  }, [projectId, syncCohorts])
+
+  const overlays = useMemo(
+    () => overlayIds.map((id) => cohorts.find((cohort) => cohort.id === id)).filter((cohort): cohort is Cohort => !!cohort),
+    [cohorts, overlayIds]
+  )
+
+  const saveCohort = useCallback(
+    (cohort: Pick<Cohort, "id" | "name" | "query"> & Partial<Cohort>) => cohortStore.save(projectId, cohort),
+    [projectId]
+  )
+  const renameCohort = useCallback((id: string, name: string) => cohortStore.rename(projectId, id, name), [projectId])
+  const duplicateCohort = useCallback((id: string) => cohortStore.duplicate(projectId, id), [projectId])
+  const restoreCohort = useCallback((id: string, version: number) => cohortStore.restore(projectId, id, version), [projectId])
+  const deleteCohort = useCallback((id: string) => cohortStore.remove(projectId, id), [projectId])
+  const toggleOverlay = useCallback((id: string) => cohortStore.toggleOverlay(projectId, id), [projectId])
+  const setOverlays = useCallback((ids: string[]) => cohortStore.setOverlays(projectId, ids), [projectId])
+
+  return {
+    cohorts,
+    overlays,
+    overlayIds,
+    canOverlayMore: overlayIds.length < MAX_OVERLAY_COHORTS,
+    sync,
+    syncCohorts,
+    saveCohort,
+    renameCohort,
+    duplicateCohort,
+    restoreCohort,
+    deleteCohort,
+    toggleOverlay,
+    setOverlays,
+  }
+}
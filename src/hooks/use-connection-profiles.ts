@@ -0,0 +1,106 @@
+import { useCallback, useSyncExternalStore } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { demClient } from "@/lib/dem-client"
+import {
+  createProfileId,
+  decryptSecret,
+  encryptSecret,
+  profileStore,
+  type ConnectionProfile,
+} from "@/lib/connection-profiles"
+import { healthMonitor } from "@/lib/dem-health"
+import { demQueryKeys } from "@/hooks/use-dem-query"
+
+type ProfileDraft = Omit<ConnectionProfile, "id" | "encryptedSecret" | "updatedAt"> & { id?: string }
+
+export function useConnectionProfiles() {
+  const { profiles, activeId, unlockedId } = useSyncExternalStore(profileStore.subscribe, profileStore.getState)
+  const queryClient = useQueryClient()
+
+  const activeProfile = profiles.find((profile) => profile.id === activeId) ?? null
+  // Profiles without a stored secret have nothing to unlock
+  const locked = !!activeProfile?.encryptedSecret && unlockedId !== activeProfile.id
+
+  const applyProfile = useCallback(
+    (profile: ConnectionProfile, secretKey: string) => {
+      demClient.updateConfig({
+        baseUrl: profile.baseUrl,
+        region: profile.region,
+        accessKey: profile.accessKey,
+        secretKey,
+        transport: profile.transport,
+      })
+      // Everything cached so far came from the previous connection
+      queryClient.resetQueries({ queryKey: demQueryKeys.all })
+      void healthMonitor.refresh()
+    },
+    [queryClient]
+  )
+
+  const switchProfile = useCallback(
+    async (id: string, passphrase?: string) => {
+      const profile = profileStore.getState().profiles.find((candidate) => candidate.id === id)
+      if (!profile) throw new Error(`Unknown connection profile ${id}`)
+
+      const secretKey =
+        profile.encryptedSecret && passphrase ? await decryptSecret(profile.encryptedSecret, passphrase) : ""
+      applyProfile(profile, secretKey)
+      profileStore.setActive(id, !profile.encryptedSecret || secretKey !== "")
+    },
+    [applyProfile]
+  )
+
+  const saveProfile = useCallback(
+    async (draft: ProfileDraft, secretKey: string, passphrase: string) => {
+      if (secretKey && !passphrase) {
+        throw new Error("Enter a passphrase to encrypt the secret key")
+      }
+
+      const existing = draft.id ? profileStore.getState().profiles.find((profile) => profile.id === draft.id) : undefined
+      const profile: ConnectionProfile = {
+        ...draft,
+        id: draft.id ?? createProfileId(),
+        encryptedSecret: secretKey ? await encryptSecret(secretKey, passphrase) : existing?.encryptedSecret ?? null,
+        updatedAt: new Date().toISOString(),
+      }
+      profileStore.upsert(profile)
+
+      if (secretKey) {
+        applyProfile(profile, secretKey)
+        profileStore.setActive(profile.id, true)
+      } else if (profile.encryptedSecret && profileStore.getState().unlockedId === profile.id) {
+        // Already unlocked this session: keep the decrypted secret instead of relocking with none
+        applyProfile(profile, demClient.getConfig()?.secretKey ?? "")
+        profileStore.setActive(profile.id, true)
+      } else {
+        await switchProfile(profile.id, passphrase || undefined)
+      }
+      return profile
+    },
+    [applyProfile, switchProfile]
+  )
+
+  const deleteProfile = useCallback(
+    (id: string) => {
+      const wasActive = profileStore.getState().activeId === id
+      profileStore.remove(id)
+      if (!wasActive) return
+      // Drop the deleted profile's endpoint and credentials along with everything fetched through them
+      demClient.resetConfig()
+      queryClient.resetQueries({ queryKey: demQueryKeys.all })
+      void healthMonitor.refresh()
+    },
+    [queryClient]
+  )
+
+  return {
+    profiles,
+    activeProfile,
+    locked,
+    switchProfile,
+    saveProfile,
+    deleteProfile,
+  }
+}
+
+export type { ProfileDraft }
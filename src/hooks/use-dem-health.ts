@@ -0,0 +1,12 @@
+import { useEffect, useSyncExternalStore } from "react"
+import { healthMonitor } from "@/lib/dem-health"
+import { useProject } from "@/hooks/use-project"
+
+/** Live health of the DEM connection for the active project; polls while mounted */
+export function useDemHealth() {
+  const { projectId } = useProject()
+
+  useEffect(() => healthMonitor.watch(projectId), [projectId])
+
+  return useSyncExternalStore(healthMonitor.subscribe, healthMonitor.getState)
+}
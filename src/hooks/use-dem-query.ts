@@ -0,0 +1,199 @@
+import { keepPreviousData, queryOptions, useQueries, useQuery, type UseQueryResult } from "@tanstack/react-query"
+import { demClient, type ApiResponse, type SurvivalData } from "@/lib/dem-client"
+import { DemRequestError, type DemFailure } from "@/lib/dem-errors"
+import type { TieMethod } from "@/lib/survival-cox"
+import type { CohortGroup } from "@/lib/cohort-query"
+
+// Every query in this app goes through DemClient, so errors are always DemFailures
+declare module "@tanstack/react-query" {
+  interface Register {
+    defaultError: DemFailure
+  }
+}
+
+/**
+ * Query keys are rooted at ["dem", projectId] so a whole project (or everything DEM)
+ * can be invalidated at once; request arguments go in a trailing object, which
+ * React Query hashes independent of key order.
+ */
+export const demQueryKeys = {
+  all: ["dem"] as const,
+  // Not project-scoped: this is where the project list itself comes from
+  projects: ["dem", "projects"] as const,
+  project: (projectId: string) => ["dem", projectId] as const,
+  peers: (projectId: string) => [...demQueryKeys.project(projectId), "peers"] as const,
+  datasetSchema: (projectId: string) => [...demQueryKeys.project(projectId), "dataset-schema"] as const,
+  aggregate: (projectId: string, cohort: unknown, metrics: string[], horizons: number[]) =>
+    [...demQueryKeys.project(projectId), "aggregate", { cohort, metrics, horizons }] as const,
+  complementStats: (projectId: string, cohort: unknown, condition: string, features: string[]) =>
+    [...demQueryKeys.project(projectId), "complement-stats", { cohort, condition, features }] as const,
+  conditionalTDigest: (projectId: string, feature: string, classBy: string, bins: number) =>
+    [...demQueryKeys.project(projectId), "conditional-tdigest", { feature, classBy, bins }] as const,
+  prediction: (projectId: string, modelId: string, features: unknown, horizons: number[]) =>
+    [...demQueryKeys.project(projectId), "prediction", { modelId, features, horizons }] as const,
+  coxModel: (projectId: string, cohort: unknown, features: string[], ties: TieMethod) =>
+    [...demQueryKeys.project(projectId), "cox-model", { cohort, features, ties }] as const,
+  cohortPreflight: (projectId: string, cohort: CohortGroup, k: number) =>
+    [...demQueryKeys.project(projectId), "cohort-preflight", { cohort, k }] as const,
+}
+
+// React Query wants rejected promises; DemClient resolves with `failure` instead
+export async function unwrapDemResponse<T>(request: Promise<ApiResponse<T>>): Promise<T> {
+  const response = await request
+  if (response.failure) throw response.failure
+  if (response.error) throw new DemRequestError("", response.status ?? 0, undefined, response.error)
+  return response.data as T
+}
+
+export const demQueries = {
+  projects: () =>
+    queryOptions({
+      queryKey: demQueryKeys.projects,
+      queryFn: ({ signal }) => unwrapDemResponse(demClient.listProjects({ signal })),
+    }),
+  peers: (projectId: string) =>
+    queryOptions({
+      queryKey: demQueryKeys.peers(projectId),
+      queryFn: ({ signal }) => unwrapDemResponse(demClient.getFederationPeers(projectId, { signal })),
+    }),
+  datasetSchema: (projectId: string) =>
+    queryOptions({
+      queryKey: demQueryKeys.datasetSchema(projectId),
+      queryFn: ({ signal }) => unwrapDemResponse(demClient.getDatasetSchema(projectId, { signal })),
+      // New categories appear as runs are added, but not from one minute to the next
+      staleTime: 10 * 60 * 1000,
+    }),
+  aggregate: (projectId: string, cohort: unknown, metrics: string[], horizons: number[]) =>
+    queryOptions({
+      queryKey: demQueryKeys.aggregate(projectId, cohort, metrics, horizons),
+      queryFn: ({ signal }) =>
+        unwrapDemResponse(demClient.aggregateData(projectId, cohort, metrics, horizons, { signal })),
+    }),
+  complementStats: (projectId: string, cohort: unknown, condition: string, features: string[]) =>
+    queryOptions({
+      queryKey: demQueryKeys.complementStats(projectId, cohort, condition, features),
+      queryFn: ({ signal }) =>
+        unwrapDemResponse(demClient.getComplementStats(projectId, cohort, condition, features, { signal })),
+    }),
+  conditionalTDigest: (projectId: string, feature: string, classBy: string, bins: number) =>
+    queryOptions({
+      queryKey: demQueryKeys.conditionalTDigest(projectId, feature, classBy, bins),
+      queryFn: ({ signal }) =>
+        unwrapDemResponse(demClient.getConditionalTDigest(projectId, feature, classBy, bins, { signal })),
+    }),
+  prediction: (projectId: string, modelId: string, features: unknown, horizons: number[]) =>
+    queryOptions({
+      queryKey: demQueryKeys.prediction(projectId, modelId, features, horizons),
+      queryFn: ({ signal }) =>
+        unwrapDemResponse(demClient.predictSurvival(projectId, modelId, features, horizons, { signal })),
+    }),
+  coxModel: (projectId: string, cohort: unknown, features: string[], ties: TieMethod) =>
+    queryOptions({
+      queryKey: demQueryKeys.coxModel(projectId, cohort, features, ties),
+      queryFn: ({ signal }) =>
+        unwrapDemResponse(
+          demClient.trainSurvivalModel(projectId, "cox", "duration", "failed", features, cohort, { signal, ties })
+        ),
+      // Training is deterministic for a cohort; refit on demand instead of in the background
+      staleTime: Infinity,
+    }),
+  cohortPreflight: (projectId: string, cohort: CohortGroup, k: number) =>
+    queryOptions({
+      queryKey: demQueryKeys.cohortPreflight(projectId, cohort, k),
+      queryFn: ({ signal }) => unwrapDemResponse(demClient.preflightCohort(projectId, cohort, k, { signal })),
+    }),
+}
+
+// DemClient already retries transient failures with backoff, so React Query must not retry on top
+const demQueryDefaults = { retry: false } as const
+
+export function useProjects() {
+  return useQuery({ ...demQueries.projects(), ...demQueryDefaults })
+}
+
+export function useFederationPeers(projectId: string) {
+  return useQuery({ ...demQueries.peers(projectId), ...demQueryDefaults })
+}
+
+export function useDatasetSchema(projectId: string) {
+  return useQuery({ ...demQueries.datasetSchema(projectId), ...demQueryDefaults })
+}
+
+export function useSurvivalAggregate(projectId: string, cohort: unknown, metrics: string[], horizons: number[]) {
+  return useQuery({ ...demQueries.aggregate(projectId, cohort, metrics, horizons), ...demQueryDefaults })
+}
+
+// Module-level so React Query only recombines when a result actually changes
+function combineAggregates(results: UseQueryResult<SurvivalData, DemFailure>[]) {
+  return {
+    data: results.map((result) => result.data),
+    errors: results.map((result) => result.error),
+    isLoading: results.some((result) => result.isLoading),
+    isFetching: results.some((result) => result.isFetching),
+    refetch: () => Promise.all(results.map((result) => result.refetch())),
+  }
+}
+
+/** One aggregate per cohort, fetched in parallel; `data` and `errors` line up with `cohorts` */
+export function useSurvivalAggregates(projectId: string, cohorts: unknown[], metrics: string[], horizons: number[]) {
+  return useQueries({
+    queries: cohorts.map((cohort) => ({ ...demQueries.aggregate(projectId, cohort, metrics, horizons), ...demQueryDefaults })),
+    combine: combineAggregates,
+  })
+}
+
+export function useComplementStats(
+  projectId: string,
+  cohort: unknown,
+  condition: string,
+  features: string[],
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useQuery({ ...demQueries.complementStats(projectId, cohort, condition, features), ...demQueryDefaults, enabled })
+}
+
+export function useConditionalTDigest(
+  projectId: string,
+  feature: string,
+  classBy: string,
+  bins: number,
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useQuery({ ...demQueries.conditionalTDigest(projectId, feature, classBy, bins), ...demQueryDefaults, enabled })
+}
+
+// Training is not free, so callers that only sometimes show the model can hold it back
+export function useCoxModel(
+  projectId: string,
+  cohort: unknown,
+  features: string[],
+  ties: TieMethod = "efron",
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useQuery({ ...demQueries.coxModel(projectId, cohort, features, ties), ...demQueryDefaults, enabled })
+}
+
+export function usePrediction(
+  projectId: string,
+  modelId: string,
+  features: unknown,
+  horizons: number[],
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useQuery({ ...demQueries.prediction(projectId, modelId, features, horizons), ...demQueryDefaults, enabled })
+}
+
+// Keeps showing the last result while the next cohort is checked, so the badges do not flicker
+export function useCohortPreflight(
+  projectId: string,
+  cohort: CohortGroup,
+  k: number,
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useQuery({
+    ...demQueries.cohortPreflight(projectId, cohort, k),
+    ...demQueryDefaults,
+    enabled,
+    placeholderData: keepPreviousData,
+  })
+}
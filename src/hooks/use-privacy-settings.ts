@@ -0,0 +1,11 @@
+import { useCallback, useSyncExternalStore } from "react"
+import { privacySettingsStore, type PrivacySettings } from "@/lib/privacy-settings"
+
+export function usePrivacySettings() {
+  const settings = useSyncExternalStore(privacySettingsStore.subscribe, privacySettingsStore.getState)
+  const updatePrivacySettings = useCallback(
+    (changes: Partial<PrivacySettings>) => privacySettingsStore.update(changes),
+    []
+  )
+  return { settings, updatePrivacySettings }
+}
@@ -0,0 +1,74 @@
+import * as React from "react"
+import { useSearchParams } from "react-router-dom"
+import type { DemProject } from "@/lib/dem-client"
+import { profileStore } from "@/lib/connection-profiles"
+import { useProjects } from "@/hooks/use-dem-query"
+
+const PROJECT_PARAM = "project"
+const DEFAULT_PROJECT_ID = "demo-project"
+
+type ProjectContextValue = {
+  projectId: string
+  // Undefined until the project list has loaded, or when the URL names a project the DEM does not list
+  project: DemProject | undefined
+  projects: DemProject[]
+  isLoading: boolean
+  setProjectId: (projectId: string) => void
+}
+
+const ProjectContext = React.createContext<ProjectContextValue | null>(null)
+
+/**
+ * The active DEM project lives in the `?project=` search param so links and reloads
+ * keep it; without one, the active connection profile's project is used.
+ */
+export function ProjectProvider({ children }: { children: React.ReactNode }) {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const projectsQuery = useProjects()
+  const projects = React.useMemo(() => projectsQuery.data ?? [], [projectsQuery.data])
+
+  const fromUrl = searchParams.get(PROJECT_PARAM)
+  const preferred = profileStore.getActive()?.projectId || DEFAULT_PROJECT_ID
+  const fallback =
+    projects.length > 0 && !projects.some((project) => project.id === preferred) ? projects[0].id : preferred
+  const projectId = fromUrl || fallback
+
+  const setProjectId = React.useCallback(
+    (next: string, replace = false) => {
+      setSearchParams(
+        (params) => {
+          params.set(PROJECT_PARAM, next)
+          return params
+        },
+        { replace }
+      )
+    },
+    [setSearchParams]
+  )
+
+  // Write the implied project into the URL so it can be shared as-is
+  React.useEffect(() => {
+    if (!fromUrl) setProjectId(fallback, true)
+  }, [fromUrl, fallback, setProjectId])
+
+  const value = React.useMemo<ProjectContextValue>(
+    () => ({
+      projectId,
+      project: projects.find((project) => project.id === projectId),
+      projects,
+      isLoading: projectsQuery.isLoading,
+      setProjectId: (next: string) => setProjectId(next),
+    }),
+    [projectId, projects, projectsQuery.isLoading, setProjectId]
+  )
+
+  return <ProjectContext.Provider value={value}>{children}</ProjectContext.Provider>
+}
+
+export function useProject() {
+  const context = React.useContext(ProjectContext)
+  if (!context) {
+    throw new Error("useProject must be used within a ProjectProvider.")
+  }
+  return context
+}
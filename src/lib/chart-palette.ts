@@ -0,0 +1,20 @@
+/**
+ * Series colours for the charts
+ * The themed chart colours come first; past those, hues are spread by the golden angle so any
+ * number of series stay distinguishable without repeating.
+ */
+
+const THEMED_COLORS = [
+  'hsl(var(--chart-primary))',
+  'hsl(var(--chart-secondary))',
+  'hsl(var(--chart-tertiary))',
+  'hsl(var(--chart-quaternary))',
+];
+
+const GOLDEN_ANGLE = 137.508;
+
+export function seriesColor(index: number): string {
+  if (index < THEMED_COLORS.length) return THEMED_COLORS[index];
+  const hue = (200 + (index - THEMED_COLORS.length) * GOLDEN_ANGLE) % 360;
+  return `hsl(${hue.toFixed(1)} 70% 45%)`;
+}
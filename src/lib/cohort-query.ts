@@ -0,0 +1,305 @@
+/**
+ * Cohort filters as a tree of AND/OR groups, and their textual form
+ * The tree is what gets saved and sent to the DEM. The text syntax is an alternative way to edit
+ * it: `BIT_TYPE in (PDC, Hybrid) and (FORMATION = Shale or not RPM between 150 and 200)`. `and` binds
+ * tighter than `or`, keywords are case-insensitive, and field names and values that are not plain
+ * words go in quotes. Printing a parsed query and parsing it again gives the same tree.
+ */
+
+type CohortOperator = '=' | '!=' | '>' | '<' | '>=' | '<=' | 'in' | 'not in' | 'between';
+
+type CohortCombinator = 'and' | 'or';
+
+interface CohortRule {
+  type: 'rule';
+  field: string;
+  operator: CohortOperator;
+  // A list for `in` and `not in`, [min, max] for `between`, a single value otherwise
+  value: string | string[];
+}
+
+interface CohortGroup {
+  type: 'group';
+  combinator: CohortCombinator;
+  // Matches the runs the group does not
+  negated?: boolean;
+  children: CohortNode[];
+}
+
+type CohortNode = CohortRule | CohortGroup;
+
+// Child indices from the root group down to a node
+type CohortPath = number[];
+
+const COHORT_OPERATORS: CohortOperator[] = ['=', '!=', '>', '<', '>=', '<=', 'in', 'not in', 'between'];
+
+const isListOperator = (operator: CohortOperator) => operator === 'in' || operator === 'not in';
+
+class CohortQuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    // Offset into the query text where parsing stopped
+    public readonly position: number
+  ) {
+    super(message);
+    this.name = 'CohortQuerySyntaxError';
+  }
+}
+
+export function emptyGroup(combinator: CohortCombinator = 'and'): CohortGroup {
+  return { type: 'group', combinator, children: [] };
+}
+
+export function emptyRule(): CohortRule {
+  return { type: 'rule', field: '', operator: '=', value: '' };
+}
+
+/** Every rule in the tree, depth first */
+export function queryRules(node: CohortNode): CohortRule[] {
+  return node.type === 'rule' ? [node] : node.children.flatMap(queryRules);
+}
+
+/** True when every rule has a field and a value, and both bounds for `between` */
+export function isQueryComplete(node: CohortNode): boolean {
+  if (node.type === 'group') return node.children.every(isQueryComplete);
+  if (node.field === '') return false;
+  if (node.operator === 'between') {
+    return Array.isArray(node.value) && node.value.length === 2 && node.value.every((bound) => bound.trim() !== '');
+  }
+  return Array.isArray(node.value) ? node.value.length > 0 : node.value.trim() !== '';
+}
+
+/** Reshapes a rule's value for another operator, keeping what carries over */
+export function valueForOperator(value: string | string[], operator: CohortOperator): string | string[] {
+  const values = (Array.isArray(value) ? value : [value]).filter((entry) => entry !== '');
+  if (isListOperator(operator)) return values;
+  if (operator === 'between') return Array.isArray(value) && value.length === 2 ? value : [values[0] ?? '', ''];
+  return values[0] ?? '';
+}
+
+export function nodeAt(root: CohortGroup, path: CohortPath): CohortNode | undefined {
+  let node: CohortNode | undefined = root;
+  for (const index of path) {
+    if (node?.type !== 'group') return undefined;
+    node = node.children[index];
+  }
+  return node;
+}
+
+/** Copy of the tree with the node at `path` replaced by `update(node)`, or removed when it returns null */
+export function updateNode(root: CohortGroup, path: CohortPath, update: (node: CohortNode) => CohortNode | null): CohortGroup {
+  const replace = (node: CohortNode, depth: number): CohortNode | null => {
+    if (depth === path.length) return update(node);
+    if (node.type !== 'group') return node;
+    const children = node.children
+      .map((child, index) => (index === path[depth] ? replace(child, depth + 1) : child))
+      .filter((child): child is CohortNode => child !== null);
+    return { ...node, children };
+  };
+  return (replace(root, 0) as CohortGroup | null) ?? emptyGroup();
+}
+
+// --- Text syntax ---
+
+type Token =
+  | { kind: 'word'; text: string; position: number }
+  | { kind: 'string'; text: string; position: number }
+  | { kind: 'operator'; text: string; position: number }
+  | { kind: '(' | ')' | ','; text: string; position: number };
+
+const WORD = /[A-Za-z0-9_.:+-]/;
+const BARE_VALUE = /^[A-Za-z0-9_.:+-]+$/;
+const KEYWORDS = new Set(['and', 'or', 'not', 'in', 'between']);
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: char, text: char, position: index });
+      index += 1;
+    } else if ('=!<>'.includes(char)) {
+      const pair = text.slice(index, index + 2);
+      const operator = ['!=', '>=', '<='].includes(pair) ? pair : char;
+      if (operator === '!') throw new CohortQuerySyntaxError("Expected '!='", index);
+      tokens.push({ kind: 'operator', text: operator, position: index });
+      index += operator.length;
+    } else if (char === '"' || char === "'") {
+      let end = index + 1;
+      let value = '';
+      while (end < text.length && text[end] !== char) {
+        // Backslash escapes the quote character and itself
+        if (text[end] === '\\' && end + 1 < text.length) end += 1;
+        value += text[end];
+        end += 1;
+      }
+      if (end >= text.length) throw new CohortQuerySyntaxError('Unterminated string', index);
+      tokens.push({ kind: 'string', text: value, position: index });
+      index = end + 1;
+    } else if (WORD.test(char)) {
+      let end = index;
+      while (end < text.length && WORD.test(text[end])) end += 1;
+      tokens.push({ kind: 'word', text: text.slice(index, end), position: index });
+      index = end;
+    } else {
+      throw new CohortQuerySyntaxError(`Unexpected character '${char}'`, index);
+    }
+  }
+  return tokens;
+}
+
+function parseTokens(tokens: Token[], length: number): CohortGroup {
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const position = () => peek()?.position ?? length;
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.kind === 'word' && token.text.toLowerCase() === keyword;
+  const expect = (kind: Token['kind'], description: string) => {
+    const token = peek();
+    if (token?.kind !== kind) throw new CohortQuerySyntaxError(`Expected ${description}`, position());
+    index += 1;
+    return token;
+  };
+
+  // Operands of a run of one combinator, e.g. the three rules of `a and b and c`
+  const parseSequence = (combinator: CohortCombinator, parseOperand: () => CohortNode): CohortNode[] => {
+    const operands = [parseOperand()];
+    while (isKeyword(peek(), combinator)) {
+      index += 1;
+      operands.push(parseOperand());
+    }
+    return operands;
+  };
+
+  const asGroup = (combinator: CohortCombinator, operands: CohortNode[]): CohortNode =>
+    operands.length === 1 ? operands[0] : { type: 'group', combinator, children: operands };
+
+  const parseOr = (): CohortNode => asGroup('or', parseSequence('or', parseAnd));
+  const parseAnd = (): CohortNode => asGroup('and', parseSequence('and', parseUnary));
+
+  const parseUnary = (): CohortNode => {
+    if (!isKeyword(peek(), 'not')) return parsePrimary();
+    index += 1;
+    const operand = parseUnary();
+    if (operand.type === 'group') return { ...operand, negated: !operand.negated };
+    return { type: 'group', combinator: 'and', children: [operand], negated: true };
+  };
+
+  const parsePrimary = (): CohortNode => {
+    if (peek()?.kind === '(') {
+      index += 1;
+      const inner = parseOr();
+      expect(')', "')'");
+      // Parentheses always make a group, so the builder shows the nesting the text had
+      return inner.type === 'group' ? inner : { type: 'group', combinator: 'and', children: [inner] };
+    }
+    return parseRule();
+  };
+
+  const parseValue = (): string => {
+    const token = peek();
+    if (token?.kind === 'string' || (token?.kind === 'word' && !KEYWORDS.has(token.text.toLowerCase()))) {
+      index += 1;
+      return token.text;
+    }
+    throw new CohortQuerySyntaxError('Expected a value', position());
+  };
+
+  const parseRule = (): CohortRule => {
+    const field = peek();
+    // Quoted field names may be anything, including a keyword
+    const bareField = field?.kind === 'word' && !KEYWORDS.has(field.text.toLowerCase());
+    if (field?.kind !== 'string' && !bareField) {
+      throw new CohortQuerySyntaxError('Expected a field name', position());
+    }
+    index += 1;
+
+    // `not in` is the only place `not` follows a field name
+    const negated = isKeyword(peek(), 'not') && isKeyword(tokens[index + 1], 'in');
+    if (negated || isKeyword(peek(), 'in')) {
+      index += negated ? 2 : 1;
+      expect('(', "'(' after 'in'");
+      const values = [parseValue()];
+      while (peek()?.kind === ',') {
+        index += 1;
+        values.push(parseValue());
+      }
+      expect(')', "')' or ','");
+      return { type: 'rule', field: field.text, operator: negated ? 'not in' : 'in', value: values };
+    }
+
+    if (isKeyword(peek(), 'between')) {
+      index += 1;
+      const min = parseValue();
+      if (!isKeyword(peek(), 'and')) throw new CohortQuerySyntaxError("Expected 'and' between the bounds", position());
+      index += 1;
+      return { type: 'rule', field: field.text, operator: 'between', value: [min, parseValue()] };
+    }
+
+    const operator = expect('operator', "an operator after the field name");
+    return { type: 'rule', field: field.text, operator: operator.text as CohortOperator, value: parseValue() };
+  };
+
+  if (tokens.length === 0) return emptyGroup();
+  // The top-level run is the root itself, so a lone parenthesized group stays a child of it
+  const conjunction = parseSequence('and', parseUnary);
+  const alternatives = [asGroup('and', conjunction)];
+  while (isKeyword(peek(), 'or')) {
+    index += 1;
+    alternatives.push(parseAnd());
+  }
+  if (index < tokens.length) throw new CohortQuerySyntaxError(`Unexpected '${peek().text}'`, position());
+  if (alternatives.length === 1) return { type: 'group', combinator: 'and', children: conjunction };
+  return { type: 'group', combinator: 'or', children: alternatives };
+}
+
+/** Parses the text syntax; throws CohortQuerySyntaxError with the offset of the problem */
+export function parseCohortQuery(text: string): CohortGroup {
+  return parseTokens(tokenize(text), text.length);
+}
+
+function formatValue(value: string): string {
+  if (BARE_VALUE.test(value) && !KEYWORDS.has(value.toLowerCase())) return value;
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+// Field names follow the same quoting rules as values
+function formatRule(rule: CohortRule): string {
+  const field = formatValue(rule.field);
+  const values = Array.isArray(rule.value) ? rule.value : [rule.value];
+  if (isListOperator(rule.operator)) {
+    return `${field} ${rule.operator} (${values.map(formatValue).join(', ')})`;
+  }
+  if (rule.operator === 'between') {
+    return `${field} between ${formatValue(values[0] ?? '')} and ${formatValue(values[1] ?? '')}`;
+  }
+  return `${field} ${rule.operator} ${formatValue(values[0] ?? '')}`;
+}
+
+// Half-filled rules and empty groups have no text form
+function hasText(node: CohortNode): boolean {
+  return node.type === 'rule' ? isQueryComplete(node) : node.children.some(hasText);
+}
+
+function formatNode(node: CohortNode, nested: boolean): string {
+  if (node.type === 'rule') return formatRule(node);
+  const body = node.children
+    .filter(hasText)
+    .map((child) => formatNode(child, true))
+    .join(` ${node.combinator} `);
+  if (node.negated) return `not (${body})`;
+  // Nested groups keep their parentheses even where precedence would allow dropping them
+  return nested ? `(${body})` : body;
+}
+
+/** Text syntax for a query or part of one; the outermost group is written without parentheses and unfinished rules are left out */
+export function formatCohortQuery(node: CohortNode): string {
+  return formatNode(node, false);
+}
+
+export { COHORT_OPERATORS, CohortQuerySyntaxError, isListOperator };
+export type { CohortOperator, CohortCombinator, CohortRule, CohortGroup, CohortNode, CohortPath };
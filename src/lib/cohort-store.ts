@@ -0,0 +1,296 @@
+/**
+ * Saved cohorts per project, and which of them are overlaid on the Dashboard
+ * Cohorts are defined against one project's schema, so every list is keyed by project id.
+ * The lists live in localStorage. When the DEM has a cohort endpoint for the project, they are
+ * also synced with it: the higher version of each cohort wins, and local edits made while the
+ * DEM could not be reached are pushed on the next sync.
+ */
+
+import { demClient } from './dem-client';
+import type { CohortGroup } from './cohort-query';
+
+// An earlier state of a saved cohort
+interface CohortRevision {
+  version: number;
+  name: string;
+  query: CohortGroup;
+  updatedAt: string;
+}
+
+interface Cohort {
+  id: string;
+  name: string;
+  // Sent as is to the DEM as the cohort filter
+  query: CohortGroup;
+  size?: number;
+  privacy?: 'safe' | 'suppressed';
+  // Bumped on every edit, starting at 1
+  version: number;
+  updatedAt: string;
+  // Earlier versions, newest first
+  history?: CohortRevision[];
+}
+
+interface CohortSync {
+  // `local`: the DEM has no cohort endpoint for the project, or is not configured
+  status: 'local' | 'syncing' | 'synced' | 'error';
+  error?: string;
+}
+
+interface CohortState {
+  cohorts: Record<string, Cohort[]>;
+  // Ids of saved cohorts drawn on the Dashboard, in legend order
+  overlays: Record<string, string[]>;
+  // Ids the DEM is known to hold, from its listing or a confirmed save
+  remoteIds: Record<string, string[]>;
+  // Ids deleted locally that the DEM has not confirmed deleting yet
+  pendingDeletes: Record<string, string[]>;
+  sync: Record<string, CohortSync>;
+}
+
+const STORAGE_KEY = 'nextmatrix.cohorts';
+
+// Each overlay is a federated aggregate request, so keep the fan-out bounded
+const MAX_OVERLAY_COHORTS = 6;
+
+const MAX_COHORT_REVISIONS = 10;
+
+const DEMO_COHORTS: Cohort[] = [
+  {
+    id: '1',
+    name: 'High RPM Operations',
+    query: {
+      type: 'group',
+      combinator: 'and',
+      children: [
+        { type: 'rule', field: 'RPM', operator: '>', value: '180' },
+        { type: 'rule', field: 'BIT_TYPE', operator: 'in', value: ['PDC', 'Hybrid'] },
+      ],
+    },
+    size: 1247,
+    privacy: 'safe',
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: '2',
+    name: 'Deep Well Drilling',
+    query: {
+      type: 'group',
+      combinator: 'and',
+      children: [
+        { type: 'rule', field: 'DEPTH', operator: '>', value: '15000' },
+        { type: 'rule', field: 'FORMATION', operator: 'in', value: ['Shale', 'Granite'] },
+      ],
+    },
+    size: 89,
+    privacy: 'suppressed',
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+];
+
+type StoredState = Pick<CohortState, 'cohorts' | 'overlays' | 'remoteIds' | 'pendingDeletes'>;
+
+function readStorage(): StoredState {
+  const seeded: StoredState = { cohorts: { 'demo-project': DEMO_COHORTS }, overlays: {}, remoteIds: {}, pendingDeletes: {} };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return seeded;
+    const parsed = JSON.parse(raw) as Partial<StoredState>;
+    return {
+      cohorts: parsed.cohorts ?? {},
+      overlays: parsed.overlays ?? {},
+      remoteIds: parsed.remoteIds ?? {},
+      pendingDeletes: parsed.pendingDeletes ?? {},
+    };
+  } catch {
+    return seeded;
+  }
+}
+
+let state: CohortState = { ...readStorage(), sync: {} };
+const listeners = new Set<() => void>();
+
+function setState(next: CohortState) {
+  state = next;
+  const { cohorts, overlays, remoteIds, pendingDeletes } = state;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ cohorts, overlays, remoteIds, pendingDeletes }));
+  listeners.forEach((listener) => listener());
+}
+
+function setSync(projectId: string, sync: CohortSync) {
+  setState({ ...state, sync: { ...state.sync, [projectId]: sync } });
+}
+
+function setCohorts(projectId: string, cohorts: Cohort[]) {
+  setState({ ...state, cohorts: { ...state.cohorts, [projectId]: cohorts } });
+}
+
+function setPendingDeletes(projectId: string, ids: string[]) {
+  setState({ ...state, pendingDeletes: { ...state.pendingDeletes, [projectId]: ids } });
+}
+
+function setRemoteIds(projectId: string, ids: string[]) {
+  setState({ ...state, remoteIds: { ...state.remoteIds, [projectId]: [...new Set(ids)] } });
+}
+
+const isSynced = (projectId: string) => state.sync[projectId]?.status === 'synced';
+
+// True when `candidate` is a later edit than `current`
+function isNewer(candidate: Cohort, current: Cohort): boolean {
+  if (candidate.version !== current.version) return candidate.version > current.version;
+  return candidate.updatedAt > current.updatedAt;
+}
+
+async function pushCohort(projectId: string, cohort: Cohort) {
+  const response = await demClient.saveCohort(projectId, cohort);
+  if (response.failure) {
+    setSync(projectId, { status: 'error', error: response.error });
+    return;
+  }
+  setRemoteIds(projectId, [...(state.remoteIds[projectId] ?? []), cohort.id]);
+}
+
+async function pushDelete(projectId: string, id: string) {
+  const response = await demClient.deleteCohort(projectId, id);
+  // Already gone on the DEM counts as deleted
+  if (!response.failure || (response.failure.kind === 'request' && response.failure.status === 404)) {
+    setPendingDeletes(projectId, (state.pendingDeletes[projectId] ?? []).filter((pending) => pending !== id));
+    setRemoteIds(projectId, (state.remoteIds[projectId] ?? []).filter((remote) => remote !== id));
+    return;
+  }
+  setSync(projectId, { status: 'error', error: response.error });
+}
+
+export const cohortStore = {
+  getState(): CohortState {
+    return state;
+  },
+
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /** Saves a new cohort at version 1, or a new version of an existing one */
+  save(projectId: string, cohort: Pick<Cohort, 'id' | 'name' | 'query'> & Partial<Cohort>): Cohort {
+    const cohorts = state.cohorts[projectId] ?? [];
+    const current = cohorts.find((candidate) => candidate.id === cohort.id);
+    const updatedAt = new Date().toISOString();
+
+    const saved: Cohort = current
+      ? {
+          ...current,
+          ...cohort,
+          version: current.version + 1,
+          updatedAt,
+          history: [
+            { version: current.version, name: current.name, query: current.query, updatedAt: current.updatedAt },
+            ...(current.history ?? []),
+          ].slice(0, MAX_COHORT_REVISIONS),
+        }
+      : { ...cohort, version: 1, updatedAt, history: [] };
+
+    setCohorts(projectId, current ? cohorts.map((candidate) => (candidate.id === saved.id ? saved : candidate)) : [...cohorts, saved]);
+    if (isSynced(projectId)) void pushCohort(projectId, saved);
+    return saved;
+  },
+
+  rename(projectId: string, id: string, name: string) {
+    const current = state.cohorts[projectId]?.find((cohort) => cohort.id === id);
+    if (current && current.name !== name) cohortStore.save(projectId, { ...current, name });
+  },
+
+  /** Copies a cohort under a new id; the copy starts its own history */
+  duplicate(projectId: string, id: string): Cohort | undefined {
+    const source = state.cohorts[projectId]?.find((cohort) => cohort.id === id);
+    if (!source) return undefined;
+    return cohortStore.save(projectId, {
+      id: crypto.randomUUID(),
+      name: `${source.name} (copy)`,
+      query: source.query,
+      size: source.size,
+      privacy: source.privacy,
+    });
+  },
+
+  /** Saves an earlier version's name and rules as the newest version */
+  restore(projectId: string, id: string, version: number) {
+    const current = state.cohorts[projectId]?.find((cohort) => cohort.id === id);
+    const revision = current?.history?.find((candidate) => candidate.version === version);
+    if (current && revision) cohortStore.save(projectId, { ...current, name: revision.name, query: revision.query });
+  },
+
+  remove(projectId: string, id: string) {
+    // Only a cohort the DEM holds needs deleting there
+    const remote = (state.remoteIds[projectId] ?? []).includes(id);
+    const pending = state.pendingDeletes[projectId] ?? [];
+    setState({
+      ...state,
+      cohorts: { ...state.cohorts, [projectId]: (state.cohorts[projectId] ?? []).filter((cohort) => cohort.id !== id) },
+      overlays: { ...state.overlays, [projectId]: (state.overlays[projectId] ?? []).filter((overlay) => overlay !== id) },
+      pendingDeletes: { ...state.pendingDeletes, [projectId]: remote ? [...pending, id] : pending },
+    });
+    if (remote && isSynced(projectId)) void pushDelete(projectId, id);
+  },
+
+  /** Merges the project's cohorts with the DEM's copy, if the DEM keeps one */
+  async sync(projectId: string) {
+    if (!demClient.isConfigured()) {
+      setSync(projectId, { status: 'local' });
+      return;
+    }
+
+    setSync(projectId, { status: 'syncing' });
+    const response = await demClient.listCohorts(projectId);
+    if (response.failure) {
+      const { failure } = response;
+      const missing = failure.kind === 'fixture-miss' || (failure.kind === 'request' && failure.status === 404);
+      setSync(projectId, missing ? { status: 'local' } : { status: 'error', error: response.error });
+      return;
+    }
+
+    const pending = state.pendingDeletes[projectId] ?? [];
+    const local = state.cohorts[projectId] ?? [];
+    const remote = new Map(response.data.filter((cohort) => !pending.includes(cohort.id)).map((cohort) => [cohort.id, cohort]));
+
+    const merged = local.map((cohort) => {
+      const other = remote.get(cohort.id);
+      return other && isNewer(other, cohort) ? other : cohort;
+    });
+    const localIds = new Set(local.map((cohort) => cohort.id));
+    remote.forEach((cohort) => {
+      if (!localIds.has(cohort.id)) merged.push(cohort);
+    });
+    const toPush = local.filter((cohort) => {
+      const other = remote.get(cohort.id);
+      return !other || isNewer(cohort, other);
+    });
+
+    setCohorts(projectId, merged);
+    setRemoteIds(projectId, response.data.map((cohort) => cohort.id));
+    setSync(projectId, { status: 'synced' });
+    await Promise.all([
+      ...toPush.map((cohort) => pushCohort(projectId, cohort)),
+      ...pending.map((id) => pushDelete(projectId, id)),
+    ]);
+  },
+
+  /** Replaces the overlay list, dropping unknown ids and anything past the limit */
+  setOverlays(projectId: string, ids: string[]) {
+    const known = new Set((state.cohorts[projectId] ?? []).map((cohort) => cohort.id));
+    const overlays = [...new Set(ids)].filter((id) => known.has(id)).slice(0, MAX_OVERLAY_COHORTS);
+    setState({ ...state, overlays: { ...state.overlays, [projectId]: overlays } });
+  },
+
+  toggleOverlay(projectId: string, id: string) {
+    const current = state.overlays[projectId] ?? [];
+    cohortStore.setOverlays(projectId, current.includes(id) ? current.filter((candidate) => candidate !== id) : [...current, id]);
+  },
+};
+
+export { MAX_OVERLAY_COHORTS };
+export type { Cohort, CohortRevision, CohortSync, CohortState };
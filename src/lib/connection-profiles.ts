@@ -0,0 +1,160 @@
+/**
+ * Named DEM connection profiles persisted in localStorage
+ * The secret access key is encrypted at rest with AES-GCM under a key derived from a
+ * user passphrase (PBKDF2-SHA256); it is only ever held in plain text in memory.
+ */
+
+import type { DemTransportKind } from './dem-transport';
+
+interface EncryptedSecret {
+  salt: string;
+  iv: string;
+  ciphertext: string;
+  iterations: number;
+}
+
+interface ConnectionProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  region: string;
+  projectId: string;
+  transport: DemTransportKind;
+  accessKey: string;
+  encryptedSecret: EncryptedSecret | null;
+  updatedAt: string;
+}
+
+interface ProfileState {
+  profiles: ConnectionProfile[];
+  activeId: string | null;
+  // Id of the profile whose secret has been decrypted this session
+  unlockedId: string | null;
+}
+
+const STORAGE_KEY = 'nextmatrix.connection-profiles';
+const PBKDF2_ITERATIONS = 310000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptSecret(secret: string, passphrase: string): Promise<EncryptedSecret> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(secret));
+
+  return {
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(ciphertext),
+    iterations: PBKDF2_ITERATIONS,
+  };
+}
+
+export async function decryptSecret(encrypted: EncryptedSecret, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, fromBase64(encrypted.salt), encrypted.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+      key,
+      fromBase64(encrypted.ciphertext)
+    );
+    return decoder.decode(plaintext);
+  } catch {
+    // AES-GCM authentication fails for a wrong passphrase
+    throw new Error('Incorrect passphrase for this connection profile');
+  }
+}
+
+function readStorage(): Pick<ProfileState, 'profiles' | 'activeId'> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { profiles: [], activeId: null };
+    const parsed = JSON.parse(raw) as Partial<ProfileState>;
+    return {
+      profiles: Array.isArray(parsed.profiles) ? parsed.profiles : [],
+      activeId: parsed.activeId ?? null,
+    };
+  } catch {
+    return { profiles: [], activeId: null };
+  }
+}
+
+let state: ProfileState = { ...readStorage(), unlockedId: null };
+const listeners = new Set<() => void>();
+
+function setState(next: ProfileState) {
+  state = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ profiles: state.profiles, activeId: state.activeId }));
+  listeners.forEach((listener) => listener());
+}
+
+export const profileStore = {
+  getState(): ProfileState {
+    return state;
+  },
+
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  getActive(): ConnectionProfile | null {
+    return state.profiles.find((profile) => profile.id === state.activeId) ?? null;
+  },
+
+  upsert(profile: ConnectionProfile) {
+    const exists = state.profiles.some((candidate) => candidate.id === profile.id);
+    setState({
+      ...state,
+      profiles: exists
+        ? state.profiles.map((candidate) => (candidate.id === profile.id ? profile : candidate))
+        : [...state.profiles, profile],
+    });
+  },
+
+  remove(id: string) {
+    setState({
+      profiles: state.profiles.filter((profile) => profile.id !== id),
+      activeId: state.activeId === id ? null : state.activeId,
+      unlockedId: state.unlockedId === id ? null : state.unlockedId,
+    });
+  },
+
+  setActive(id: string | null, unlocked: boolean) {
+    setState({ ...state, activeId: id, unlockedId: unlocked ? id : null });
+  },
+};
+
+export function createProfileId(): string {
+  return crypto.randomUUID();
+}
+
+export type { ConnectionProfile, EncryptedSecret, ProfileState };
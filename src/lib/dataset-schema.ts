@@ -0,0 +1,53 @@
+/**
+ * What the pages read from the DEM's dataset schema
+ * Cohort fields, driver features and What-If controls all follow the schema the DEM publishes
+ * for a project, so a new rig, vendor or sensor shows up without a release.
+ */
+
+import type { DatasetField, DatasetSchema } from './dem-client';
+
+type FieldValue = number | string;
+
+/** Fields a survival model can take as covariates */
+export function covariateFields(schema: DatasetSchema | undefined): DatasetField[] {
+  return schema?.fields.filter((field) => field.covariate) ?? [];
+}
+
+/** Numeric covariates; categorical ones need encoding before they can enter the Cox model */
+export function coxFeatures(schema: DatasetSchema | undefined): string[] {
+  return covariateFields(schema)
+    .filter((field) => field.type === 'numeric')
+    .map((field) => field.name);
+}
+
+// Roughly 20 steps across the range, on a 1-2-5 scale
+function niceStep(span: number): number {
+  if (span <= 0) return 1;
+  const raw = span / 20;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= raw) ?? 10;
+  return step * magnitude;
+}
+
+export function fieldStep(field: DatasetField): number {
+  if (!field.range) return 1;
+  return field.range.step ?? niceStep(field.range.max - field.range.min);
+}
+
+/** Starting value for a control: mid-range for numbers, the first listed category otherwise */
+export function defaultFieldValue(field: DatasetField): FieldValue | undefined {
+  if (field.type === 'numeric' && field.range) {
+    const step = fieldStep(field);
+    const middle = (field.range.min + field.range.max) / 2;
+    const snapped = field.range.min + Math.round((middle - field.range.min) / step) * step;
+    // Snapping can leave binary fractions behind, e.g. 0.1 steps
+    return Number(snapped.toFixed(10));
+  }
+  return field.domain?.[0];
+}
+
+export function formatFieldValue(field: DatasetField, value: FieldValue): string {
+  return field.unit ? `${value} ${field.unit}` : String(value);
+}
+
+export type { FieldValue };
@@ -3,25 +3,111 @@
  * Handles AWS SigV4 signing and federated analytics requests
  */
 
+import { signRequest as signV4 } from './sigv4';
+import {
+  HttpTransport,
+  FixtureTransport,
+  RecordingTransport,
+  type DemTransport,
+  type DemTransportKind,
+  type DemTransportResponse,
+  type FixtureBundle,
+} from './dem-transport';
+import { demoFixtures } from './dem-fixtures';
+import { profileStore } from './connection-profiles';
+import {
+  survivalDataSchema,
+  predictionDataSchema,
+  complementStatsSchema,
+  tDigestDataSchema,
+  federationPeersSchema,
+  projectsSchema,
+  trainedModelSchema,
+  coxModelSchema,
+  savedCohortSchema,
+  cohortPreflightSchema,
+  datasetSchemaSchema,
+} from './dem-schemas';
+import {
+  DemError,
+  DemConfigError,
+  DemValidationError,
+  DemTimeoutError,
+  DemNetworkError,
+  DemAbortedError,
+  errorFromResponse,
+  type DemFailure,
+} from './dem-errors';
+import {
+  DEFAULT_RETRY_POLICY,
+  IDEMPOTENT_METHODS,
+  isRetryableStatus,
+  backoffDelay,
+  parseRetryAfter,
+  delay,
+  type RetryPolicy,
+} from './dem-retry';
+import type { RiskTable } from './survival-km';
+import type { CoxFit, TieMethod } from './survival-cox';
+import type { Cohort } from './cohort-store';
+import type { CohortGroup } from './cohort-query';
+import type { ZodTypeAny } from 'zod';
+
 interface DemConfig {
   baseUrl: string;
   region: string;
   accessKey: string;
   secretKey: string;
+  // Temporary (STS) credentials carry a session token that must be signed along with the request
+  sessionToken?: string;
+  // SigV4 service name of the DEM gateway
+  service?: string;
+  transport?: DemTransportKind;
+  // Per-attempt timeout; federated aggregates fan out to every peer and can be slow
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy>;
+}
+
+interface DemRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // `false` disables retries for this call
+  retry?: Partial<RetryPolicy> | false;
+}
+
+interface TrainOptions extends DemRequestOptions {
+  // How the Cox partial likelihood treats runs that failed at the same (binned) time
+  ties?: TieMethod;
+}
+
+interface DemFetchOptions extends RequestInit, DemRequestOptions {
+  // Read-only POST queries are safe to repeat; defaults to true only for idempotent HTTP methods
+  idempotent?: boolean;
+}
+
+interface DemClientOptions {
+  // Overrides the transport derived from config.transport, e.g. a stand-in for local development
+  transport?: DemTransport;
 }
 
 interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  status?: number;
+  // Structured cause behind `error`; switch on `failure.kind`
+  failure?: DemFailure;
 }
 
 interface SurvivalData {
-  km: { t: number[]; s: number[] };
+  // `lower`/`upper` are pointwise confidence bands, when known
+  km: { t: number[]; s: number[]; lower?: number[]; upper?: number[] };
   hazard: { t: number[]; h: number[] };
   percentiles: { p10: number; p50: number; p90: number };
   n: number;
   censored: number;
+  // Released when the aggregate was requested with the `risk_table` metric
+  riskTable?: RiskTable;
 }
 
 interface PredictionData {
@@ -45,182 +131,342 @@ interface TDigestData {
   survived: { bins: number[]; counts: number[] };
 }
 
+interface DemProject {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+interface TrainedModel {
+  modelId: string;
+  params: Record<string, unknown>;
+  metrics: Record<string, unknown>;
+}
+
+// One column of the project's run dataset
+interface DatasetField {
+  name: string;
+  label: string;
+  type: 'categorical' | 'numeric' | 'date';
+  unit?: string;
+  // Categorical values frequent enough to list without breaking k-anonymity; rarer ones are left out
+  domain?: string[];
+  // Numeric bounds, coarsened by the DEM so they do not reveal extreme runs
+  range?: { min: number; max: number; step?: number };
+  // Operating parameter or bit property that survival models can use as a covariate
+  covariate?: boolean;
+}
+
+interface DatasetSchema {
+  fields: DatasetField[];
+}
+
+// Size check of a cohort before anything is aggregated over it
+interface CohortPreflight {
+  // Federated run count; peers may add noise before releasing it
+  count: number;
+  noised: boolean;
+  // Threshold the check was made against
+  k: number;
+  passes: boolean;
+  // Count with each rule left out, keyed by the rule's path in the query
+  rules: { path: number[]; countWithout: number }[];
+}
+
+// Result of `trainSurvivalModel(..., 'cox', ...)`
+interface CoxModel {
+  modelId: string;
+  algo: 'cox';
+  params: Pick<CoxFit, 'ties' | 'features' | 'coefficients' | 'means' | 'baseline'>;
+  metrics: Pick<CoxFit, 'logLikelihood' | 'nullLogLikelihood' | 'concordance' | 'phTest' | 'n' | 'events'>;
+}
+
+function errorDetail(payload: unknown): string | undefined {
+  if (!payload || typeof payload !== 'object') return undefined;
+  const { message, error } = payload as { message?: unknown; error?: unknown };
+  if (typeof message === 'string') return message;
+  return typeof error === 'string' ? error : undefined;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
 class DemClient {
   private config: DemConfig | null = null;
+  private transport: DemTransport;
+  private fixtures: FixtureBundle = { version: 1, entries: [] };
 
-  constructor() {
+  constructor(options: DemClientOptions = {}) {
     // Initialize with environment variables if available
     this.initializeConfig();
+    this.transport = options.transport ?? this.createTransport(this.config?.transport ?? 'mock');
   }
 
   private initializeConfig() {
-    // Using mock configuration for demo purposes
+    // The active connection profile wins; its secret stays encrypted until the user unlocks it
+    const profile = profileStore.getActive();
     this.config = {
-      baseUrl: 'https://api.nextmatrix.demo',
-      region: 'us-west-2',
-      accessKey: 'mock-access-key',
-      secretKey: 'mock-secret-key',
+      baseUrl: profile?.baseUrl ?? import.meta.env.VITE_DEM_BASE_URL ?? 'https://api.nextmatrix.demo',
+      region: profile?.region ?? import.meta.env.VITE_DEM_REGION ?? 'us-west-2',
+      accessKey: profile?.accessKey ?? '',
+      secretKey: '',
+      service: 'execute-api',
+      // Fall back to the mock transport so the app is usable without a gateway
+      transport: profile?.transport ?? (import.meta.env.VITE_DEM_TRANSPORT as DemTransportKind | undefined) ?? 'mock',
     };
   }
 
+  private createTransport(kind: DemTransportKind): DemTransport {
+    switch (kind) {
+      case 'http':
+        return new HttpTransport();
+      case 'fixture':
+        return new FixtureTransport(this.fixtures);
+      default:
+        return new FixtureTransport(demoFixtures, 'mock');
+    }
+  }
+
   private async signRequest(url: string, options: RequestInit = {}): Promise<RequestInit> {
-    // In a real implementation, this would perform AWS SigV4 signing
-    // For demo purposes, we'll return the options as-is with auth headers
-    
     const headers = new Headers(options.headers);
-    headers.set('Authorization', `AWS4-HMAC-SHA256 Credential=${this.config?.accessKey}/...`);
-    headers.set('X-Amz-Date', new Date().toISOString());
     headers.set('Content-Type', 'application/json');
 
+    const body = options.body;
+    if (body != null && typeof body !== 'string') {
+      throw new Error('DEM requests must send a JSON string body to be signed');
+    }
+
+    const toSign: Record<string, string> = {};
+    headers.forEach((value, name) => {
+      toSign[name] = value;
+    });
+
+    const signed = await signV4(
+      { method: options.method ?? 'GET', url, headers: toSign, body: body as string | undefined },
+      {
+        region: this.config!.region,
+        service: this.config!.service ?? 'execute-api',
+        credentials: {
+          accessKeyId: this.config!.accessKey,
+          secretAccessKey: this.config!.secretKey,
+          sessionToken: this.config!.sessionToken,
+        },
+      }
+    );
+
+    for (const [name, value] of Object.entries(signed.headers)) {
+      headers.set(name, value);
+    }
+
     return {
       ...options,
       headers,
     };
   }
 
-  async fetch<T = any>(path: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
-    if (!this.config) {
-      return { error: 'DEM client not configured. Please check environment variables.' };
-    }
+  // Sends one logical request, re-signing and retrying per the retry policy
+  private async send(path: string, options: DemFetchOptions): Promise<DemTransportResponse> {
+    const config = this.config!;
+    const url = `${config.baseUrl}${path}`;
+    const method = (options.method ?? 'GET').toUpperCase();
+    const endpoint = `${method} ${path}`;
+    const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+    const timeoutMs = options.timeoutMs ?? config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const policy: RetryPolicy =
+      options.retry === false
+        ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+        : { ...DEFAULT_RETRY_POLICY, ...config.retry, ...options.retry };
+    const callerSignal = options.signal ?? undefined;
 
-    try {
-      const url = `${this.config.baseUrl}${path}`;
-      const signedOptions = await this.signRequest(url, options);
-      
-      // For demo purposes, return mock data instead of making real requests
-      return this.getMockResponse<T>(path, options);
-      
-      // Real implementation would be:
-      // const response = await fetch(url, signedOptions);
-      // const data = await response.json();
-      // return { data };
-      
-    } catch (error) {
-      console.error('DEM API Error:', error);
-      return { error: error instanceof Error ? error.message : 'Unknown error occurred' };
-    }
-  }
+    for (let attempt = 0; ; attempt++) {
+      if (callerSignal?.aborted) throw new DemAbortedError(endpoint);
 
-  private getMockResponse<T>(path: string, options: RequestInit): ApiResponse<T> {
-    // Mock responses for demonstration
-    if (path.includes('/federation/aggregate')) {
-      const mockSurvival: SurvivalData = {
-        km: {
-          t: [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150],
-          s: [1.0, 0.98, 0.95, 0.92, 0.88, 0.83, 0.78, 0.72, 0.66, 0.59, 0.52, 0.45, 0.38, 0.31, 0.24, 0.18]
-        },
-        hazard: {
-          t: [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150],
-          h: [0.02, 0.022, 0.025, 0.028, 0.032, 0.036, 0.041, 0.047, 0.053, 0.060, 0.068, 0.077, 0.087, 0.098, 0.111, 0.125]
-        },
-        percentiles: { p10: 35, p50: 89, p90: 145 },
-        n: 1542,
-        censored: 0.31
-      };
-      return { data: mockSurvival as T };
-    }
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+      const forwardAbort = () => controller.abort();
+      callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+
+      const canRetry = attempt + 1 < policy.maxAttempts;
+      let response: DemTransportResponse | undefined;
+
+      try {
+        // Re-sign every attempt so X-Amz-Date stays within the gateway's clock skew window
+        const signedOptions = await this.signRequest(url, { ...options, method, signal: controller.signal });
+        response = await this.transport.send({
+          method,
+          url,
+          path,
+          headers: signedOptions.headers as Headers,
+          body: signedOptions.body as string | undefined,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (callerSignal?.aborted) throw new DemAbortedError(endpoint);
 
-    if (path.includes('/models/survival/predict')) {
-      const mockPrediction: PredictionData = {
-        t: [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150],
-        s: [1.0, 0.97, 0.94, 0.90, 0.85, 0.80, 0.74, 0.68, 0.62, 0.55, 0.48, 0.42, 0.35, 0.29, 0.23, 0.18],
-        atHorizons: {
-          "10": 0.97,
-          "50": 0.80,
-          "100": 0.48,
-          "150": 0.18
+        // Only timeouts and network failures (fetch rejects with TypeError) are worth another try
+        const transient = timedOut || error instanceof TypeError;
+        if (!transient || !idempotent || !canRetry) {
+          if (timedOut) throw new DemTimeoutError(endpoint, timeoutMs, attempt + 1);
+          throw error instanceof DemError ? error : new DemNetworkError(endpoint, error);
         }
-      };
-      return { data: mockPrediction as T };
+      } finally {
+        clearTimeout(timer);
+        callerSignal?.removeEventListener('abort', forwardAbort);
+      }
+
+      if (response && !(canRetry && isRetryableStatus(response.status, idempotent))) {
+        return response;
+      }
+
+      const retryAfter = response ? parseRetryAfter(response.headers.get('Retry-After')) : null;
+      if (response && retryAfter !== null && retryAfter > policy.maxRetryAfterMs) {
+        return response;
+      }
+
+      try {
+        await delay(retryAfter ?? backoffDelay(attempt, policy), callerSignal);
+      } catch {
+        throw new DemAbortedError(endpoint);
+      }
     }
+  }
 
-    if (path.includes('/exploration/complement-stats')) {
-      const mockStats: ComplementStats[] = [
-        {
-          feature: "RPM",
-          failed_mean: 180.5,
-          complement_mean: 165.2,
-          delta_mean: 15.3,
-          failed_iqr: [150, 210],
-          complement_iqr: [140, 190],
-          delta_iqr: 10
-        },
-        {
-          feature: "WOB",
-          failed_mean: 25.8,
-          complement_mean: 22.1,
-          delta_mean: 3.7,
-          failed_iqr: [20, 30],
-          complement_iqr: [18, 26],
-          delta_iqr: 2
-        },
-        {
-          feature: "ROP",
-          failed_mean: 45.2,
-          complement_mean: 38.6,
-          delta_mean: 6.6,
-          failed_iqr: [35, 55],
-          complement_iqr: [30, 47],
-          delta_iqr: 5
-        }
-      ];
-      return { data: mockStats as T };
+  async fetch<T = any>(path: string, options: DemFetchOptions = {}, schema?: ZodTypeAny): Promise<ApiResponse<T>> {
+    if (!this.config) {
+      const failure = new DemConfigError();
+      return { error: failure.message, failure };
     }
 
-    if (path.includes('/exploration/conditional-tdigest')) {
-      const mockTDigest: TDigestData = {
-        failed: {
-          bins: [140, 150, 160, 170, 180, 190, 200, 210, 220],
-          counts: [12, 28, 45, 67, 89, 76, 54, 32, 18]
-        },
-        survived: {
-          bins: [130, 140, 150, 160, 170, 180, 190, 200, 210],
-          counts: [18, 42, 78, 112, 134, 98, 67, 34, 15]
+    const endpoint = `${(options.method ?? 'GET').toUpperCase()} ${path}`;
+
+    try {
+      const response = await this.send(path, options);
+      const ok = response.status >= 200 && response.status < 300;
+
+      let payload: unknown;
+      try {
+        payload = response.body ? JSON.parse(response.body) : undefined;
+      } catch {
+        if (ok) {
+          const failure = new DemValidationError(endpoint, [{ path: '(root)', message: 'Response is not valid JSON' }]);
+          return { error: failure.message, failure, status: response.status };
         }
-      };
-      return { data: mockTDigest as T };
-    }
+      }
 
-    return { error: 'Mock endpoint not implemented' };
+      if (!ok) {
+        const failure = errorFromResponse(endpoint, response.status, payload, response.headers);
+        return { error: failure.message, message: errorDetail(payload), failure, status: response.status };
+      }
+
+      if (!schema) {
+        return { data: payload as T, status: response.status };
+      }
+
+      const parsed = schema.safeParse(payload);
+      if (!parsed.success) {
+        const failure = DemValidationError.fromZod(endpoint, parsed.error);
+        return { error: failure.message, failure, status: response.status };
+      }
+      return { data: parsed.data as T, status: response.status };
+    } catch (error) {
+      const failure = error instanceof DemError ? (error as DemFailure) : new DemNetworkError(endpoint, error);
+      // Callers treat a replay miss as "no such endpoint here", e.g. cohort sync in demo mode
+      if (failure.kind !== 'aborted' && failure.kind !== 'fixture-miss') {
+        console.error('DEM API Error:', error);
+      }
+      return { error: failure.message, failure };
+    }
   }
 
   // API Methods
-  async getFederationPeers(projectId: string): Promise<ApiResponse<string[]>> {
-    return this.fetch(`/api/v1/projects/${projectId}/federation/peers`);
+  async listProjects(options: DemRequestOptions = {}): Promise<ApiResponse<DemProject[]>> {
+    return this.fetch('/api/v1/projects', options, projectsSchema);
+  }
+
+  async getFederationPeers(projectId: string, options: DemRequestOptions = {}): Promise<ApiResponse<string[]>> {
+    return this.fetch(`/api/v1/projects/${projectId}/federation/peers`, options, federationPeersSchema);
   }
 
-  async aggregateData(projectId: string, cohort: any, metrics: string[], horizons: number[]): Promise<ApiResponse<SurvivalData>> {
+  async aggregateData(projectId: string, cohort: any, metrics: string[], horizons: number[], options: DemRequestOptions = {}): Promise<ApiResponse<SurvivalData>> {
     return this.fetch(`/api/v1/projects/${projectId}/federation/aggregate`, {
+      ...options,
       method: 'POST',
+      idempotent: true,
       body: JSON.stringify({ cohort, metrics, horizons })
-    });
+    }, survivalDataSchema);
   }
 
-  async getComplementStats(projectId: string, cohort: any, condition: string, features: string[]): Promise<ApiResponse<ComplementStats[]>> {
+  async getComplementStats(projectId: string, cohort: any, condition: string, features: string[], options: DemRequestOptions = {}): Promise<ApiResponse<ComplementStats[]>> {
     return this.fetch(`/api/v1/projects/${projectId}/exploration/complement-stats`, {
+      ...options,
       method: 'POST',
+      idempotent: true,
       body: JSON.stringify({ cohort, condition, features })
-    });
+    }, complementStatsSchema.array());
   }
 
-  async getConditionalTDigest(projectId: string, feature: string, classBy: string, bins: number): Promise<ApiResponse<TDigestData>> {
+  async getConditionalTDigest(projectId: string, feature: string, classBy: string, bins: number, options: DemRequestOptions = {}): Promise<ApiResponse<TDigestData>> {
     return this.fetch(`/api/v1/projects/${projectId}/exploration/conditional-tdigest`, {
+      ...options,
       method: 'POST',
+      idempotent: true,
       body: JSON.stringify({ feature, classBy, bins })
-    });
+    }, tDigestDataSchema);
   }
 
-  async trainSurvivalModel(projectId: string, algo: 'weibull' | 'cox', label: string, censor: string, features: string[], cohort: any): Promise<ApiResponse<{ modelId: string; params: any; metrics: any }>> {
+  async trainSurvivalModel(projectId: string, algo: 'cox', label: string, censor: string, features: string[], cohort: any, options?: TrainOptions): Promise<ApiResponse<CoxModel>>;
+  async trainSurvivalModel(projectId: string, algo: 'weibull', label: string, censor: string, features: string[], cohort: any, options?: TrainOptions): Promise<ApiResponse<TrainedModel>>;
+  async trainSurvivalModel(projectId: string, algo: 'weibull' | 'cox', label: string, censor: string, features: string[], cohort: any, options: TrainOptions = {}): Promise<ApiResponse<TrainedModel | CoxModel>> {
+    const { ties, ...requestOptions } = options;
     return this.fetch(`/api/v1/projects/${projectId}/models/survival/train`, {
+      ...requestOptions,
       method: 'POST',
-      body: JSON.stringify({ algo, label, censor, features, cohort })
-    });
+      body: JSON.stringify({ algo, label, censor, features, cohort, ties: algo === 'cox' ? ties ?? 'efron' : undefined })
+    }, algo === 'cox' ? coxModelSchema : trainedModelSchema);
   }
 
-  async predictSurvival(projectId: string, modelId: string, features: any, horizons: number[]): Promise<ApiResponse<PredictionData>> {
+  async predictSurvival(projectId: string, modelId: string, features: any, horizons: number[], options: DemRequestOptions = {}): Promise<ApiResponse<PredictionData>> {
     return this.fetch(`/api/v1/projects/${projectId}/models/survival/predict`, {
+      ...options,
       method: 'POST',
+      idempotent: true,
       body: JSON.stringify({ modelId, features, horizons })
+    }, predictionDataSchema);
+  }
+
+  async getDatasetSchema(projectId: string, options: DemRequestOptions = {}): Promise<ApiResponse<DatasetSchema>> {
+    return this.fetch(`/api/v1/projects/${projectId}/dataset/schema`, options, datasetSchemaSchema);
+  }
+
+  // Saved cohorts shared through the DEM; not every deployment has this endpoint
+  async listCohorts(projectId: string, options: DemRequestOptions = {}): Promise<ApiResponse<Cohort[]>> {
+    return this.fetch(`/api/v1/projects/${projectId}/cohorts`, options, savedCohortSchema.array());
+  }
+
+  async saveCohort(projectId: string, cohort: Cohort, options: DemRequestOptions = {}): Promise<ApiResponse<Cohort>> {
+    return this.fetch(`/api/v1/projects/${projectId}/cohorts/${encodeURIComponent(cohort.id)}`, {
+      ...options,
+      method: 'PUT',
+      body: JSON.stringify(cohort)
+    }, savedCohortSchema);
+  }
+
+  async preflightCohort(projectId: string, cohort: CohortGroup, k: number, options: DemRequestOptions = {}): Promise<ApiResponse<CohortPreflight>> {
+    return this.fetch(`/api/v1/projects/${projectId}/cohorts/preflight`, {
+      ...options,
+      method: 'POST',
+      idempotent: true,
+      body: JSON.stringify({ cohort, k })
+    }, cohortPreflightSchema);
+  }
+
+  async deleteCohort(projectId: string, cohortId: string, options: DemRequestOptions = {}): Promise<ApiResponse<void>> {
+    return this.fetch(`/api/v1/projects/${projectId}/cohorts/${encodeURIComponent(cohortId)}`, {
+      ...options,
+      method: 'DELETE'
     });
   }
 
@@ -232,13 +478,60 @@ class DemClient {
     return this.config;
   }
 
+  /** Back to the active profile, or the environment defaults when there is none; any unlocked secret is dropped */
+  resetConfig() {
+    this.initializeConfig();
+    const kind = this.config?.transport ?? 'mock';
+    if (kind !== this.transport.kind) {
+      this.setTransport(this.createTransport(kind));
+    }
+  }
+
   updateConfig(config: Partial<DemConfig>) {
     if (this.config) {
       this.config = { ...this.config, ...config };
+      if (config.transport && config.transport !== this.transport.kind) {
+        this.setTransport(this.createTransport(config.transport));
+      }
     }
   }
+
+  setTransport(transport: DemTransport) {
+    // Keep an active recording going across transport switches
+    if (this.transport instanceof RecordingTransport) {
+      this.transport.inner = transport;
+    } else {
+      this.transport = transport;
+    }
+  }
+
+  loadFixtures(bundle: FixtureBundle) {
+    this.fixtures = bundle;
+    if (this.transport.kind === 'fixture') {
+      this.setTransport(this.createTransport('fixture'));
+    }
+  }
+
+  // Record every exchange from now on so it can be replayed offline later
+  startRecording() {
+    if (!(this.transport instanceof RecordingTransport)) {
+      this.transport = new RecordingTransport(this.transport, this.config?.baseUrl);
+    }
+  }
+
+  stopRecording(): FixtureBundle | null {
+    if (!(this.transport instanceof RecordingTransport)) return null;
+    const bundle = this.transport.toBundle();
+    this.transport = this.transport.inner;
+    return bundle;
+  }
+
+  isRecording(): boolean {
+    return this.transport instanceof RecordingTransport;
+  }
 }
 
 // Export singleton instance
 export const demClient = new DemClient();
-export type { DemConfig, SurvivalData, PredictionData, ComplementStats, TDigestData };
\ No newline at end of file
+export { DemClient };
+export type { DemConfig, DemClientOptions, DemRequestOptions, TrainOptions, ApiResponse, SurvivalData, PredictionData, ComplementStats, TDigestData, DemProject, TrainedModel, CoxModel, CohortPreflight, DatasetField, DatasetSchema };
\ No newline at end of file
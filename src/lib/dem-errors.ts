@@ -0,0 +1,315 @@
+/**
+ * Errors raised while talking to the DEM
+ * Every failure carries a `kind` so pages can switch on it and read the fields that kind provides.
+ */
+
+import type { ZodError } from 'zod';
+
+type DemErrorKind =
+  | 'config'
+  | 'auth'
+  | 'k-anonymity'
+  | 'peer-unavailable'
+  | 'validation'
+  | 'timeout'
+  | 'request'
+  | 'server'
+  | 'network'
+  | 'aborted'
+  | 'fixture-miss';
+
+abstract class DemError extends Error {
+  abstract readonly kind: DemErrorKind;
+
+  constructor(
+    message: string,
+    // `METHOD /path` of the request that failed
+    public readonly endpoint?: string
+  ) {
+    super(message);
+    this.name = 'DemError';
+  }
+}
+
+// Body the DEM gateway sends alongside non-2xx responses
+interface DemErrorPayload {
+  code?: string;
+  message?: string;
+  error?: string;
+  requestId?: string;
+  // k-anonymity suppression
+  groupSize?: number;
+  threshold?: number;
+  // Federation failures
+  peer?: string;
+  peers?: string[];
+}
+
+class DemConfigError extends DemError {
+  readonly kind = 'config' as const;
+
+  constructor(message = 'DEM client not configured. Please check environment variables.') {
+    super(message);
+    this.name = 'DemConfigError';
+  }
+}
+
+const SIGNATURE_CODES = new Set([
+  'SignatureDoesNotMatch',
+  'IncompleteSignature',
+  'InvalidSignatureException',
+  'MissingAuthenticationToken',
+]);
+
+class DemAuthError extends DemError {
+  readonly kind = 'auth' as const;
+  // True when the gateway rejected the SigV4 signature itself rather than the identity's permissions
+  readonly signatureRejected: boolean;
+  readonly expired: boolean;
+
+  constructor(
+    endpoint: string,
+    public readonly status: number,
+    public readonly code?: string,
+    detail?: string
+  ) {
+    const signatureRejected = (code !== undefined && SIGNATURE_CODES.has(code)) || (code === undefined && status === 401);
+    const expired = code === 'ExpiredToken' || code === 'ExpiredTokenException';
+    const summary = expired
+      ? 'Session credentials have expired'
+      : signatureRejected
+        ? 'Request signature was rejected'
+        : 'Access denied';
+    super(detail ? `${summary} (HTTP ${status}): ${detail}` : `${summary} (HTTP ${status})`, endpoint);
+    this.name = 'DemAuthError';
+    this.signatureRejected = signatureRejected;
+    this.expired = expired;
+  }
+}
+
+// The cohort is smaller than the k-anonymity threshold, so the DEM refused to release aggregates
+class DemSuppressionError extends DemError {
+  readonly kind = 'k-anonymity' as const;
+
+  constructor(
+    endpoint: string,
+    public readonly threshold?: number,
+    public readonly groupSize?: number
+  ) {
+    const detail =
+      groupSize !== undefined && threshold !== undefined
+        ? `: group of ${groupSize} is below k = ${threshold}`
+        : threshold !== undefined
+          ? `: group is below k = ${threshold}`
+          : '';
+    super(`Result suppressed by k-anonymity${detail}`, endpoint);
+    this.name = 'DemSuppressionError';
+  }
+}
+
+class DemPeerUnavailableError extends DemError {
+  readonly kind = 'peer-unavailable' as const;
+
+  constructor(
+    endpoint: string,
+    public readonly peers: string[],
+    public readonly status?: number
+  ) {
+    super(
+      peers.length > 0
+        ? `Federation peer${peers.length === 1 ? '' : 's'} unavailable: ${peers.join(', ')}`
+        : 'A federation peer is unavailable',
+      endpoint
+    );
+    this.name = 'DemPeerUnavailableError';
+  }
+}
+
+interface ValidationIssue {
+  // Location inside the payload, e.g. `km.s` or `[2].failed_iqr`
+  path: string;
+  message: string;
+}
+
+function formatPath(path: (string | number)[]): string {
+  const formatted = path.map((segment) => (typeof segment === 'number' ? `[${segment}]` : `.${segment}`)).join('');
+  return formatted.replace(/^\./, '') || '(root)';
+}
+
+class DemValidationError extends DemError {
+  readonly kind = 'validation' as const;
+
+  constructor(
+    endpoint: string,
+    public readonly issues: ValidationIssue[]
+  ) {
+    super(`Malformed DEM response from ${endpoint}: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`, endpoint);
+    this.name = 'DemValidationError';
+  }
+
+  static fromZod(endpoint: string, error: ZodError): DemValidationError {
+    return new DemValidationError(
+      endpoint,
+      error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }))
+    );
+  }
+}
+
+class DemTimeoutError extends DemError {
+  readonly kind = 'timeout' as const;
+
+  constructor(
+    endpoint: string,
+    public readonly timeoutMs: number,
+    public readonly attempts: number
+  ) {
+    super(`DEM request ${endpoint} timed out after ${timeoutMs} ms (${attempts} ${attempts === 1 ? 'attempt' : 'attempts'})`, endpoint);
+    this.name = 'DemTimeoutError';
+  }
+}
+
+// 4xx responses that are the caller's fault (bad cohort, unknown model, ...)
+class DemRequestError extends DemError {
+  readonly kind = 'request' as const;
+
+  constructor(
+    endpoint: string,
+    public readonly status: number,
+    public readonly code?: string,
+    detail?: string
+  ) {
+    const summary = status === 404 ? 'Endpoint not found' : status === 429 ? 'Too many requests' : 'Bad request';
+    super(detail ? `${summary} (HTTP ${status}): ${detail}` : `${summary} (HTTP ${status})`, endpoint);
+    this.name = 'DemRequestError';
+  }
+}
+
+class DemServerError extends DemError {
+  readonly kind = 'server' as const;
+
+  constructor(
+    endpoint: string,
+    public readonly status: number,
+    public readonly requestId?: string,
+    detail?: string
+  ) {
+    const summary = status === 503 ? 'DEM service unavailable' : 'DEM server error';
+    super(detail ? `${summary} (HTTP ${status}): ${detail}` : `${summary} (HTTP ${status})`, endpoint);
+    this.name = 'DemServerError';
+  }
+}
+
+// The request never produced a response: DNS, CORS, connection reset, ...
+class DemNetworkError extends DemError {
+  readonly kind = 'network' as const;
+
+  constructor(endpoint: string, cause?: unknown) {
+    super(`Unable to reach the DEM${cause instanceof Error ? `: ${cause.message}` : ''}`, endpoint);
+    this.name = 'DemNetworkError';
+  }
+}
+
+// The caller cancelled the request, e.g. because the page that needed it was left
+class DemAbortedError extends DemError {
+  readonly kind = 'aborted' as const;
+
+  constructor(endpoint: string) {
+    super(`DEM request ${endpoint} was cancelled`, endpoint);
+    this.name = 'DemAbortedError';
+  }
+}
+
+// Replay found nothing recorded for the request
+class FixtureMissError extends DemError {
+  readonly kind = 'fixture-miss' as const;
+
+  constructor(
+    public readonly method: string,
+    public readonly path: string,
+    public readonly bodyHash: string,
+    body?: string
+  ) {
+    const preview = body ? `: ${body.length > 200 ? `${body.slice(0, 200)}…` : body}` : '';
+    super(`No fixture recorded for ${method} ${path} (body sha256 ${bodyHash.slice(0, 12)})${preview}`, `${method} ${path}`);
+    this.name = 'FixtureMissError';
+  }
+}
+
+function toPayload(payload: unknown): DemErrorPayload {
+  return payload && typeof payload === 'object' ? (payload as DemErrorPayload) : {};
+}
+
+/** Map a non-2xx DEM response onto the error taxonomy */
+function errorFromResponse(endpoint: string, status: number, payload: unknown, headers?: Headers): DemFailure {
+  const body = toPayload(payload);
+  const detail = body.message ?? body.error;
+  const requestId = body.requestId ?? headers?.get('x-amzn-requestid') ?? undefined;
+
+  if (body.code === 'KAnonymitySuppressed' || status === 451) {
+    return new DemSuppressionError(endpoint, body.threshold, body.groupSize);
+  }
+  if (body.code === 'PeerUnavailable' || ((status === 502 || status === 504) && (body.peer || body.peers))) {
+    return new DemPeerUnavailableError(endpoint, body.peers ?? (body.peer ? [body.peer] : []), status);
+  }
+  if (status === 401 || status === 403) {
+    return new DemAuthError(endpoint, status, body.code, detail);
+  }
+  if (status >= 500) {
+    return new DemServerError(endpoint, status, requestId, detail);
+  }
+  return new DemRequestError(endpoint, status, body.code, detail);
+}
+
+type DemFailure =
+  | DemConfigError
+  | DemAuthError
+  | DemSuppressionError
+  | DemPeerUnavailableError
+  | DemValidationError
+  | DemTimeoutError
+  | DemRequestError
+  | DemServerError
+  | DemNetworkError
+  | DemAbortedError
+  | FixtureMissError;
+
+/** Short toast-friendly wording for a failure */
+function describeDemError(error: DemFailure): { title: string; description: string } {
+  switch (error.kind) {
+    case 'auth':
+      return {
+        title: error.expired ? 'Credentials Expired' : 'Authentication Failed',
+        description: `${error.message}. Check the access keys in Settings.`,
+      };
+    case 'k-anonymity':
+      return { title: 'Cohort Suppressed', description: `${error.message}. Broaden the cohort to see results.` };
+    case 'peer-unavailable':
+      return { title: 'Peer Unavailable', description: error.message };
+    case 'validation':
+      return { title: 'Unexpected Response', description: error.message };
+    case 'timeout':
+      return { title: 'Request Timed Out', description: error.message };
+    case 'network':
+      return { title: 'Connection Error', description: error.message };
+    default:
+      return { title: 'Data Load Error', description: error.message };
+  }
+}
+
+export {
+  DemError,
+  DemConfigError,
+  DemAuthError,
+  DemSuppressionError,
+  DemPeerUnavailableError,
+  DemValidationError,
+  DemTimeoutError,
+  DemRequestError,
+  DemServerError,
+  DemNetworkError,
+  DemAbortedError,
+  FixtureMissError,
+  errorFromResponse,
+  describeDemError,
+};
+export type { DemErrorKind, DemErrorPayload, DemFailure, ValidationIssue };
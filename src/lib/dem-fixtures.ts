@@ -0,0 +1,301 @@
+/**
+ * Built-in demo fixture bundle
+ * Replayed by the `mock` transport; entries carry no body hash, so most requests get the same
+ * representative response. Aggregates, Cox fits, feature distributions and cohort preflights are
+ * answered from a set of synthetic runs instead, so cohorts, features and tie methods change the
+ * results as they would live.
+ * Record a session against a real gateway for request-specific data.
+ */
+
+import type { FixtureBundle } from './dem-transport';
+import { kaplanMeier, riskTableFromRecords, failureQuantile } from './survival-km';
+import { fitCox, type CoxRecord, type TieMethod } from './survival-cox';
+import type { CohortGroup, CohortNode, CohortRule } from './cohort-query';
+import type { SurvivalData, PredictionData, ComplementStats, TDigestData, DemProject, CoxModel, CohortPreflight, DatasetSchema } from './dem-client';
+
+// Deterministic PRNG so the demo data is identical on every load
+function mulberry32(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const DEMO_RUN_COUNT = 1542;
+// The DEM releases event times in 5-hour bins so no single run can be singled out
+const RISK_TABLE_BIN_HOURS = 5;
+
+// Standard normal draw (Box-Muller)
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+// Drilling parameters of the synthetic runs: mean, spread and log hazard ratio per unit
+const DEMO_COVARIATES = {
+  RPM: { mean: 170, sd: 20, effect: 0.012 },
+  WOB: { mean: 24, sd: 4, effect: 0.05 },
+  ROP: { mean: 42, sd: 8, effect: 0.004 },
+  TEMP: { mean: 95, sd: 12, effect: 0.02 },
+};
+
+// Published range of a simulated covariate: three standard deviations either side, on whole steps
+function demoRange(feature: keyof typeof DEMO_COVARIATES, step: number) {
+  const { mean, sd } = DEMO_COVARIATES[feature];
+  return { min: Math.floor((mean - 3 * sd) / step) * step, max: Math.ceil((mean + 3 * sd) / step) * step, step };
+}
+
+/**
+ * Synthetic bit runs: proportional-hazards Weibull(k = 2.2, λ = 105 h) lifetimes driven by
+ * the covariates above, pulled early at a uniform 20-260 h
+ */
+function simulateDemoRuns(): CoxRecord[] {
+  const random = mulberry32(20240611);
+  return Array.from({ length: DEMO_RUN_COUNT }, () => {
+    const covariates: Record<string, number> = {};
+    let linear = 0;
+    for (const [feature, { mean, sd, effect }] of Object.entries(DEMO_COVARIATES)) {
+      const value = Math.round((mean + sd * gaussian(random)) * 10) / 10;
+      covariates[feature] = value;
+      linear += effect * (value - mean);
+    }
+
+    const lifetime = 105 * Math.pow(-Math.log(1 - random()) / Math.exp(linear), 1 / 2.2);
+    const pulledAt = 20 + 240 * random();
+    const duration = Math.min(lifetime, pulledAt);
+    return {
+      duration: Math.ceil(duration / RISK_TABLE_BIN_HOURS) * RISK_TABLE_BIN_HOURS,
+      event: lifetime <= pulledAt,
+      covariates,
+    };
+  });
+}
+
+const demoRuns = simulateDemoRuns();
+
+function mockSurvival(runs: CoxRecord[]): SurvivalData {
+  const riskTable = riskTableFromRecords(runs);
+  const km = kaplanMeier(riskTable);
+  return {
+    km: { t: km.t, s: km.s },
+    hazard: {
+      t: [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150],
+      h: [0.02, 0.022, 0.025, 0.028, 0.032, 0.036, 0.041, 0.047, 0.053, 0.060, 0.068, 0.077, 0.087, 0.098, 0.111, 0.125]
+    },
+    percentiles: {
+      p10: failureQuantile(km, 0.1) ?? 0,
+      p50: failureQuantile(km, 0.5) ?? 0,
+      p90: failureQuantile(km, 0.9) ?? 0
+    },
+    n: runs.length,
+    censored: runs.filter(run => !run.event).length / runs.length,
+    riskTable
+  };
+}
+
+const mockPrediction: PredictionData = {
+  t: [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150],
+  s: [1.0, 0.97, 0.94, 0.90, 0.85, 0.80, 0.74, 0.68, 0.62, 0.55, 0.48, 0.42, 0.35, 0.29, 0.23, 0.18],
+  atHorizons: {
+    "10": 0.97,
+    "50": 0.80,
+    "100": 0.48,
+    "150": 0.18
+  }
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Linear interpolation between order statistics
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  return sorted[lower] + (sorted[Math.ceil(position)] - sorted[lower]) * (position - lower);
+}
+
+function summarizeFeature(runs: CoxRecord[], feature: string) {
+  const values = runs.map((run) => run.covariates[feature]).sort((a, b) => a - b);
+  return {
+    mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+    iqr: [quantile(values, 0.25), quantile(values, 0.75)] as [number, number],
+  };
+}
+
+// Failed runs against the rest, for every simulated covariate
+const mockStats: ComplementStats[] = Object.keys(DEMO_COVARIATES).map((feature) => {
+  const failed = summarizeFeature(demoRuns.filter((run) => run.event), feature);
+  const complement = summarizeFeature(demoRuns.filter((run) => !run.event), feature);
+  return {
+    feature,
+    failed_mean: round1(failed.mean),
+    complement_mean: round1(complement.mean),
+    delta_mean: round1(failed.mean - complement.mean),
+    failed_iqr: [round1(failed.iqr[0]), round1(failed.iqr[1])],
+    complement_iqr: [round1(complement.iqr[0]), round1(complement.iqr[1])],
+    delta_iqr: round1(failed.iqr[1] - failed.iqr[0] - (complement.iqr[1] - complement.iqr[0])),
+  };
+});
+
+// Failed and surviving runs binned on one shared grid over the feature's range
+function mockTDigest(request: unknown) {
+  const { feature, bins } = request as { feature: string; bins: number };
+  const values = demoRuns.map((run) => run.covariates[feature]);
+  if (values.some((value) => value === undefined)) {
+    return { status: 422, body: { code: 'UnsupportedFeature', message: `${feature} is not a numeric feature` } };
+  }
+  const min = Math.min(...values);
+  const width = (Math.max(...values) - min) / bins || 1;
+  const centres = Array.from({ length: bins }, (_, index) => round1(min + (index + 0.5) * width));
+  const histogram = (runs: CoxRecord[]) => {
+    const counts: number[] = new Array(bins).fill(0);
+    runs.forEach((run) => {
+      counts[Math.min(bins - 1, Math.floor((run.covariates[feature] - min) / width))] += 1;
+    });
+    return { bins: centres, counts };
+  };
+  const digest: TDigestData = {
+    failed: histogram(demoRuns.filter((run) => run.event)),
+    survived: histogram(demoRuns.filter((run) => !run.event)),
+  };
+  return { body: digest };
+}
+
+// What the DEM's federated Cox trainer returns for the demo runs; each feature set and tie
+// method is fitted on first request, so loading the app does not pay for it
+const mockCoxModels = new Map<string, CoxModel | null>();
+function trainMockCoxModel(features: string[], ties: TieMethod): CoxModel | null {
+  const key = `${ties}:${features.join(',')}`;
+  if (mockCoxModels.has(key)) return mockCoxModels.get(key) ?? null;
+  const fit = fitCox(demoRuns, features, { ties });
+  const model: CoxModel | null = fit && {
+    modelId: `cox-model-${mockCoxModels.size + 1}`,
+    algo: "cox",
+    params: {
+      ties: fit.ties,
+      features: fit.features,
+      coefficients: fit.coefficients,
+      means: fit.means,
+      baseline: fit.baseline
+    },
+    metrics: {
+      logLikelihood: fit.logLikelihood,
+      nullLogLikelihood: fit.nullLogLikelihood,
+      concordance: fit.concordance,
+      phTest: fit.phTest,
+      n: fit.n,
+      events: fit.events
+    }
+  };
+  mockCoxModels.set(key, model);
+  return model;
+}
+
+function mockTrain(request: unknown) {
+  const { features, ties } = request as { features: string[]; ties?: TieMethod };
+  const model = trainMockCoxModel(features, ties ?? 'efron');
+  if (model) return { body: model };
+  return {
+    status: 422,
+    body: { code: 'ModelFitFailed', message: `No Cox model could be fitted on ${features.join(', ') || 'no features'}` },
+  };
+}
+
+const mockDatasetSchema: DatasetSchema = {
+  fields: [
+    { name: 'BIT_TYPE', label: 'Bit Type', type: 'categorical', domain: ['PDC', 'Roller', 'Diamond', 'Hybrid'], covariate: true },
+    { name: 'BIT_SIZE', label: 'Bit Size', type: 'numeric', unit: 'in', range: { min: 6, max: 17.5, step: 0.25 } },
+    { name: 'FORMATION', label: 'Formation', type: 'categorical', domain: ['Sandstone', 'Shale', 'Limestone', 'Granite'], covariate: true },
+    { name: 'MUD_TYPE', label: 'Mud Type', type: 'categorical', domain: ['WBM', 'OBM', 'SBM'] },
+    { name: 'VENDOR', label: 'Vendor', type: 'categorical', domain: ['Smith', 'Baker', 'Halliburton', 'NOV'] },
+    { name: 'RIG', label: 'Rig', type: 'categorical', domain: ['Rig-001', 'Rig-002', 'Rig-003'] },
+    { name: 'RPM', label: 'RPM', type: 'numeric', unit: 'rpm', range: demoRange('RPM', 5), covariate: true },
+    { name: 'WOB', label: 'WOB', type: 'numeric', unit: 'klbs', range: demoRange('WOB', 1), covariate: true },
+    { name: 'ROP', label: 'ROP', type: 'numeric', unit: 'ft/hr', range: demoRange('ROP', 5), covariate: true },
+    { name: 'TEMP', label: 'Temperature', type: 'numeric', unit: '°C', range: demoRange('TEMP', 10), covariate: true },
+    { name: 'DEPTH', label: 'Depth', type: 'numeric', unit: 'ft', range: { min: 0, max: 25000, step: 500 } },
+    { name: 'RUN_DATE', label: 'Run Date', type: 'date' },
+  ],
+};
+
+// Only the simulated covariates can be checked; rules on any other field keep every run
+function matchesRule(run: CoxRecord, rule: CohortRule): boolean {
+  const value = run.covariates[rule.field];
+  if (value === undefined) return true;
+  const values = (Array.isArray(rule.value) ? rule.value : [rule.value]).map(Number);
+  switch (rule.operator) {
+    case '=': return value === values[0];
+    case '!=': return value !== values[0];
+    case '>': return value > values[0];
+    case '<': return value < values[0];
+    case '>=': return value >= values[0];
+    case '<=': return value <= values[0];
+    case 'in': return values.includes(value);
+    case 'not in': return !values.includes(value);
+    case 'between': return value >= values[0] && value <= values[1];
+  }
+}
+
+function matchesNode(run: CoxRecord, node: CohortNode): boolean {
+  if (node.type === 'rule') return matchesRule(run, node);
+  const matches = node.combinator === 'and'
+    ? node.children.every((child) => matchesNode(run, child))
+    : node.children.length === 0 || node.children.some((child) => matchesNode(run, child));
+  return node.negated ? !matches : matches;
+}
+
+const countDemoRuns = (cohort: CohortGroup) => demoRuns.filter((run) => matchesNode(run, cohort)).length;
+
+// The federation's own floor; smaller cohorts are suppressed as a live DEM would
+const DEMO_FEDERATION_K = 5;
+
+function mockAggregate(request: unknown) {
+  const { cohort } = request as { cohort?: { query?: CohortGroup } };
+  const runs = cohort?.query ? demoRuns.filter((run) => matchesNode(run, cohort.query)) : demoRuns;
+  if (runs.length < DEMO_FEDERATION_K) {
+    return { status: 451, body: { code: 'KAnonymitySuppressed', threshold: DEMO_FEDERATION_K, groupSize: runs.length } };
+  }
+  return { body: mockSurvival(runs) };
+}
+
+// Counts are exact here; a live DEM adds noise before releasing them
+function mockPreflight(request: unknown) {
+  const { cohort, k } = request as { cohort: CohortGroup; k: number };
+  const count = countDemoRuns(cohort);
+  const preflight: CohortPreflight = {
+    count,
+    noised: false,
+    k,
+    passes: count >= k,
+    rules: cohort.children.map((_, index) => ({
+      path: [index],
+      countWithout: countDemoRuns({ ...cohort, children: cohort.children.filter((__, other) => other !== index) }),
+    })),
+  };
+  return { body: preflight };
+}
+
+const mockPeers: string[] = ["peer-permian-01", "peer-bakken-02", "peer-eagleford-03"];
+
+const mockProjects: DemProject[] = [
+  { id: "demo-project", name: "Oil Bit Survival", description: "PDC and roller-cone runs across the demo basins" },
+  { id: "demo-motors", name: "Mud Motor Reliability", description: "Downhole motor runs to stall or pull" },
+];
+
+const projectPath = '/api/v1/projects/:projectId';
+
+export const demoFixtures: FixtureBundle = {
+  version: 1,
+  entries: [
+    { method: 'GET', path: '/api/v1/projects', status: 200, body: mockProjects },
+    { method: 'GET', path: `${projectPath}/federation/peers`, status: 200, body: mockPeers },
+    { method: 'POST', path: `${projectPath}/federation/aggregate`, status: 200, reply: mockAggregate },
+    { method: 'POST', path: `${projectPath}/models/survival/train`, status: 200, reply: mockTrain },
+    { method: 'POST', path: `${projectPath}/models/survival/predict`, status: 200, body: mockPrediction },
+    { method: 'POST', path: `${projectPath}/exploration/complement-stats`, status: 200, body: mockStats },
+    { method: 'POST', path: `${projectPath}/exploration/conditional-tdigest`, status: 200, reply: mockTDigest },
+    { method: 'GET', path: `${projectPath}/dataset/schema`, status: 200, body: mockDatasetSchema },
+    { method: 'POST', path: `${projectPath}/cohorts/preflight`, status: 200, reply: mockPreflight },
+  ],
+};
@@ -0,0 +1,213 @@
+/**
+ * Background DEM health monitor
+ * Polls the federation peer list of the watched project and derives an overall
+ * connected / degraded / offline status plus per-peer reachability from it.
+ */
+
+import { demClient } from './dem-client';
+import type { DemFailure } from './dem-errors';
+
+type HealthStatus = 'unknown' | 'connected' | 'degraded' | 'offline';
+
+interface PeerHealth {
+  id: string;
+  reachable: boolean;
+  lastSeenAt: number | null;
+  lastError: string | null;
+}
+
+interface HealthState {
+  projectId: string | null;
+  status: HealthStatus;
+  checking: boolean;
+  latencyMs: number | null;
+  lastCheckedAt: number | null;
+  lastSuccessAt: number | null;
+  lastError: string | null;
+  peers: PeerHealth[];
+}
+
+const POLL_INTERVAL_MS = 30000;
+// Federated calls fan out to every peer; beyond this the UI feels stuck even if nothing failed
+const DEGRADED_LATENCY_MS = 3000;
+const CHECK_TIMEOUT_MS = 10000;
+
+const initialState = (projectId: string | null): HealthState => ({
+  projectId,
+  status: 'unknown',
+  checking: false,
+  latencyMs: null,
+  lastCheckedAt: null,
+  lastSuccessAt: null,
+  lastError: null,
+  peers: [],
+});
+
+let state: HealthState = initialState(null);
+const listeners = new Set<() => void>();
+const watchers = new Map<symbol, string>();
+let timer: ReturnType<typeof setTimeout> | undefined;
+let inFlight: AbortController | undefined;
+
+function setState(next: HealthState) {
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * A peer missing from a successful listing is down; peers seen earlier stay listed so the
+ * outage is visible.
+ */
+function mergeListing(previous: PeerHealth[], listed: string[], now: number): PeerHealth[] {
+  const merged = new Map(previous.map((peer) => [peer.id, peer]));
+
+  for (const peer of previous) {
+    if (!listed.includes(peer.id)) {
+      merged.set(peer.id, { ...peer, reachable: false, lastError: peer.lastError ?? 'Missing from the federation peer list' });
+    }
+  }
+  for (const id of listed) {
+    merged.set(id, { id, reachable: true, lastSeenAt: now, lastError: null });
+  }
+
+  return [...merged.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// A PeerUnavailable failure names the peers that are down and says nothing about the others
+function markUnreachable(previous: PeerHealth[], down: string[], error: string): PeerHealth[] {
+  const merged = new Map(previous.map((peer) => [peer.id, peer]));
+
+  for (const id of down) {
+    merged.set(id, { id, reachable: false, lastSeenAt: merged.get(id)?.lastSeenAt ?? null, lastError: error });
+  }
+
+  return [...merged.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+async function check(): Promise<void> {
+  const projectId = state.projectId;
+  if (!projectId) return;
+
+  inFlight?.abort();
+  const controller = new AbortController();
+  inFlight = controller;
+  setState({ ...state, checking: true });
+
+  const started = performance.now();
+  const response = await demClient.getFederationPeers(projectId, {
+    signal: controller.signal,
+    timeoutMs: CHECK_TIMEOUT_MS,
+    // The next poll is the retry
+    retry: false,
+  });
+  const latencyMs = Math.round(performance.now() - started);
+  const failure: DemFailure | undefined = response.failure;
+
+  // Superseded by a newer check or a project switch
+  if (controller.signal.aborted || state.projectId !== projectId) return;
+  inFlight = undefined;
+
+  const now = Date.now();
+  if (response.data) {
+    const peers = mergeListing(state.peers, response.data, now);
+    const degraded = latencyMs > DEGRADED_LATENCY_MS || peers.some((peer) => !peer.reachable);
+    setState({
+      ...state,
+      status: degraded ? 'degraded' : 'connected',
+      checking: false,
+      latencyMs,
+      lastCheckedAt: now,
+      lastSuccessAt: now,
+      lastError: null,
+      peers,
+    });
+    return;
+  }
+
+  const message = response.error ?? 'Health check failed';
+  // The gateway answered and only named peers are down, so the rest of the federation still works
+  const peerOutage = failure?.kind === 'peer-unavailable';
+  setState({
+    ...state,
+    status: peerOutage ? 'degraded' : 'offline',
+    checking: false,
+    latencyMs: peerOutage ? latencyMs : null,
+    lastCheckedAt: now,
+    lastError: message,
+    peers: peerOutage
+      ? markUnreachable(state.peers, failure.peers, message)
+      : state.peers.map((peer) => ({ ...peer, reachable: false, lastError: message })),
+  });
+}
+
+function schedule() {
+  clearTimeout(timer);
+  if (watchers.size === 0) {
+    timer = undefined;
+    return;
+  }
+  timer = setTimeout(async () => {
+    // Background tabs do not need fresh status; catch up when the tab is visible again
+    if (typeof document === 'undefined' || !document.hidden) {
+      await check();
+    }
+    schedule();
+  }, POLL_INTERVAL_MS);
+}
+
+function retarget() {
+  const projectId = [...watchers.values()].pop() ?? null;
+
+  if (!projectId) {
+    // Keep the last known state so a remount shows it until the next check
+    clearTimeout(timer);
+    timer = undefined;
+    inFlight?.abort();
+    inFlight = undefined;
+    if (state.checking) setState({ ...state, checking: false });
+    return;
+  }
+
+  if (projectId !== state.projectId) {
+    inFlight?.abort();
+    inFlight = undefined;
+    setState(initialState(projectId));
+  } else if (timer !== undefined) {
+    return;
+  }
+
+  void check();
+  schedule();
+}
+
+export const healthMonitor = {
+  getState(): HealthState {
+    return state;
+  },
+
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /** Start polling `projectId`; polling stops once every watcher has released */
+  watch(projectId: string) {
+    const token = Symbol(projectId);
+    watchers.set(token, projectId);
+    retarget();
+    return () => {
+      watchers.delete(token);
+      retarget();
+    };
+  },
+
+  /** Check immediately, e.g. after the connection settings changed */
+  async refresh() {
+    await check();
+    schedule();
+  },
+};
+
+export type { HealthStatus, PeerHealth, HealthState };
@@ -0,0 +1,73 @@
+/**
+ * Retry policy for DEM requests
+ * Exponential backoff with full jitter, Retry-After support and abortable waits.
+ */
+
+interface RetryPolicy {
+  // Total attempts including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A Retry-After longer than this is not worth waiting for; the response is returned as-is
+  maxRetryAfterMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+};
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+// Throttling and overload mean the server did not process the request, so any method may retry
+const ALWAYS_RETRYABLE_STATUSES = new Set([429, 503]);
+// Gateway failures may have happened after the request reached a peer
+const IDEMPOTENT_RETRYABLE_STATUSES = new Set([408, 502, 504]);
+
+function isRetryableStatus(status: number, idempotent: boolean): boolean {
+  return ALWAYS_RETRYABLE_STATUSES.has(status) || (idempotent && IDEMPOTENT_RETRYABLE_STATUSES.has(status));
+}
+
+function backoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/** Retry-After is either delta-seconds or an HTTP date */
+function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export { DEFAULT_RETRY_POLICY, IDEMPOTENT_METHODS, isRetryableStatus, backoffDelay, parseRetryAfter, delay };
+export type { RetryPolicy };
@@ -0,0 +1,190 @@
+/**
+ * Runtime schemas for DEM payloads
+ * DemClient validates every response against these before handing data to the UI.
+ * Keep them in sync with the payload interfaces in dem-client.ts (z.infer needs strict mode,
+ * which this project does not enable).
+ */
+
+import { z } from 'zod';
+
+const series = z.array(z.number().finite());
+
+// Parallel arrays (time vs value) must line up one-to-one or the charts silently misplot
+function sameLength(reference: string, dependent: string) {
+  return (value: Record<string, unknown[]>, ctx: z.RefinementCtx) => {
+    // Optional series are checked only when present
+    if (value[dependent] === undefined) return;
+    const expected = value[reference].length;
+    const received = value[dependent].length;
+    if (expected !== received) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [dependent],
+        message: `Expected ${expected} entries to match ${reference}, received ${received}`,
+      });
+    }
+  };
+}
+
+const probability = z.number().min(0).max(1);
+
+const counts = z.array(z.number().int().nonnegative());
+
+const riskTableSchema = z
+  .object({ t: series, atRisk: counts, events: counts, censored: counts })
+  .superRefine(sameLength('t', 'atRisk'))
+  .superRefine(sameLength('t', 'events'))
+  .superRefine(sameLength('t', 'censored'));
+
+export const survivalDataSchema = z.object({
+  km: z
+    .object({ t: series, s: series, lower: series.optional(), upper: series.optional() })
+    .superRefine(sameLength('t', 's'))
+    .superRefine(sameLength('t', 'lower'))
+    .superRefine(sameLength('t', 'upper')),
+  hazard: z.object({ t: series, h: series }).superRefine(sameLength('t', 'h')),
+  percentiles: z.object({ p10: z.number(), p50: z.number(), p90: z.number() }),
+  n: z.number().int().nonnegative(),
+  censored: probability,
+  riskTable: riskTableSchema.optional(),
+});
+
+export const predictionDataSchema = z
+  .object({
+    t: series,
+    s: series,
+    atHorizons: z.record(z.string(), probability),
+  })
+  .superRefine(sameLength('t', 's'));
+
+export const complementStatsSchema = z.object({
+  feature: z.string(),
+  failed_mean: z.number(),
+  complement_mean: z.number(),
+  delta_mean: z.number(),
+  failed_iqr: z.tuple([z.number(), z.number()]),
+  complement_iqr: z.tuple([z.number(), z.number()]),
+  delta_iqr: z.number(),
+});
+
+const histogram = z
+  .object({ bins: series, counts: z.array(z.number().nonnegative()) })
+  .superRefine(sameLength('bins', 'counts'));
+
+export const tDigestDataSchema = z.object({
+  failed: histogram,
+  survived: histogram,
+});
+
+export const federationPeersSchema = z.array(z.string());
+
+export const projectsSchema = z.array(
+  z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    description: z.string().optional(),
+  })
+);
+
+export const trainedModelSchema = z.object({
+  modelId: z.string(),
+  params: z.record(z.string(), z.unknown()),
+  metrics: z.record(z.string(), z.unknown()),
+});
+
+const coxCoefficientSchema = z.object({
+  feature: z.string(),
+  beta: z.number(),
+  se: z.number().nonnegative(),
+  hazardRatio: z.number().positive(),
+  lower: z.number().nonnegative(),
+  upper: z.number().nonnegative(),
+  z: z.number(),
+  p: probability,
+});
+
+const phTestSchema = z.object({
+  transform: z.literal('km'),
+  features: z.array(z.object({ feature: z.string(), rho: z.number(), chisq: z.number().nonnegative(), p: probability })),
+  global: z.object({ chisq: z.number().nonnegative(), df: z.number().int().positive(), p: probability }),
+});
+
+export const coxModelSchema = z.object({
+  modelId: z.string(),
+  algo: z.literal('cox'),
+  params: z.object({
+    ties: z.enum(['breslow', 'efron']),
+    features: z.array(z.string()),
+    coefficients: z.array(coxCoefficientSchema),
+    means: z.record(z.string(), z.number()),
+    baseline: z.object({ t: series, cumulativeHazard: series }).superRefine(sameLength('t', 'cumulativeHazard')),
+  }),
+  metrics: z.object({
+    logLikelihood: z.number(),
+    nullLogLikelihood: z.number(),
+    concordance: probability,
+    phTest: phTestSchema,
+    n: z.number().int().nonnegative(),
+    events: z.number().int().nonnegative(),
+  }),
+});
+
+const cohortRuleSchema = z.object({
+  type: z.literal('rule'),
+  field: z.string(),
+  operator: z.enum(['=', '!=', '>', '<', '>=', '<=', 'in', 'not in', 'between']),
+  value: z.union([z.string(), z.array(z.string())]),
+});
+
+// Groups nest, so the schema refers to itself
+const cohortGroupSchema: z.ZodTypeAny = z.lazy(() =>
+  z.object({
+    type: z.literal('group'),
+    combinator: z.enum(['and', 'or']),
+    negated: z.boolean().optional(),
+    children: z.array(z.union([cohortRuleSchema, cohortGroupSchema])),
+  })
+);
+
+const cohortRevisionSchema = z.object({
+  version: z.number().int().positive(),
+  name: z.string(),
+  query: cohortGroupSchema,
+  updatedAt: z.string(),
+});
+
+export const savedCohortSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  query: cohortGroupSchema,
+  size: z.number().int().nonnegative().optional(),
+  privacy: z.enum(['safe', 'suppressed']).optional(),
+  version: z.number().int().positive(),
+  updatedAt: z.string(),
+  history: z.array(cohortRevisionSchema).optional(),
+});
+
+export const cohortPreflightSchema = z.object({
+  count: z.number().nonnegative(),
+  noised: z.boolean(),
+  k: z.number().int().positive(),
+  passes: z.boolean(),
+  rules: z.array(z.object({ path: z.array(z.number().int().nonnegative()), countWithout: z.number().nonnegative() })),
+});
+
+const datasetFieldSchema = z.object({
+  name: z.string().min(1),
+  label: z.string(),
+  type: z.enum(['categorical', 'numeric', 'date']),
+  unit: z.string().optional(),
+  domain: z.array(z.string()).optional(),
+  range: z
+    .object({ min: z.number().finite(), max: z.number().finite(), step: z.number().positive().optional() })
+    .refine((range) => range.min <= range.max, { message: 'Expected min <= max' })
+    .optional(),
+  covariate: z.boolean().optional(),
+});
+
+export const datasetSchemaSchema = z.object({
+  fields: z.array(datasetFieldSchema),
+});
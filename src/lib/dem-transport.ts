@@ -0,0 +1,201 @@
+/**
+ * DEM transport layer
+ * Decouples DemClient from how a signed request actually reaches a DEM endpoint:
+ * real HTTP, the built-in demo bundle, or replay of a recorded fixture bundle.
+ */
+
+import { sha256Hex } from './sigv4';
+import { FixtureMissError } from './dem-errors';
+
+type DemTransportKind = 'http' | 'mock' | 'fixture';
+
+interface DemRequest {
+  method: string;
+  url: string;
+  // Path relative to the DEM base URL, e.g. /api/v1/projects/demo-project/federation/peers
+  path: string;
+  headers: Headers;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+interface DemTransportResponse {
+  status: number;
+  headers: Headers;
+  body: string;
+}
+
+interface DemTransport {
+  readonly kind: DemTransportKind;
+  send(request: DemRequest): Promise<DemTransportResponse>;
+}
+
+interface FixtureEntry {
+  method: string;
+  // Concrete path, or a pattern with `:param` segments such as /api/v1/projects/:projectId/federation/peers
+  path: string;
+  // SHA-256 of the canonical JSON request body; entries without one match any body
+  bodyHash?: string;
+  status: number;
+  body?: unknown;
+  // Built-in mock entries may answer from the parsed request body instead; recorded bundles never do
+  reply?: (requestBody: unknown) => Partial<Pick<FixtureEntry, 'status' | 'body'>>;
+}
+
+interface FixtureBundle {
+  version: 1;
+  recordedAt?: string;
+  baseUrl?: string;
+  entries: FixtureEntry[];
+}
+
+// Serialize with sorted object keys so semantically equal bodies hash identically
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+async function hashRequestBody(body?: string): Promise<string> {
+  if (!body) return sha256Hex('');
+  try {
+    return sha256Hex(canonicalJson(JSON.parse(body)));
+  } catch {
+    return sha256Hex(body);
+  }
+}
+
+function pathMatches(pattern: string, path: string): boolean {
+  const patternSegments = pattern.split('/');
+  const pathSegments = path.split('?')[0].split('/');
+  if (patternSegments.length !== pathSegments.length) return false;
+  return patternSegments.every((segment, index) => segment.startsWith(':') || segment === pathSegments[index]);
+}
+
+const jsonHeaders = () => new Headers({ 'Content-Type': 'application/json' });
+
+function jsonResponse(status: number, body: unknown): DemTransportResponse {
+  return {
+    status,
+    headers: jsonHeaders(),
+    body: body === undefined ? '' : JSON.stringify(body),
+  };
+}
+
+class HttpTransport implements DemTransport {
+  readonly kind = 'http' as const;
+
+  async send(request: DemRequest): Promise<DemTransportResponse> {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: await response.text(),
+    };
+  }
+}
+
+class FixtureTransport implements DemTransport {
+  constructor(
+    private bundle: FixtureBundle,
+    readonly kind: 'mock' | 'fixture' = 'fixture'
+  ) {}
+
+  async send(request: DemRequest): Promise<DemTransportResponse> {
+    const bodyHash = await hashRequestBody(request.body);
+    const candidates = this.bundle.entries.filter(
+      (entry) => entry.method === request.method && pathMatches(entry.path, request.path)
+    );
+
+    // Exact body matches win over body-agnostic entries
+    const entry =
+      candidates.find((candidate) => candidate.bodyHash === bodyHash) ??
+      candidates.find((candidate) => candidate.bodyHash === undefined);
+
+    if (!entry) {
+      throw new FixtureMissError(request.method, request.path, bodyHash, request.body);
+    }
+
+    const { status, body } = entry.reply
+      ? { ...entry, ...entry.reply(request.body ? JSON.parse(request.body) : undefined) }
+      : entry;
+    return jsonResponse(status, body);
+  }
+}
+
+/**
+ * Passes requests through to another transport and keeps every exchange,
+ * so a session against a real gateway can be exported as a fixture bundle.
+ */
+class RecordingTransport implements DemTransport {
+  private entries = new Map<string, FixtureEntry>();
+
+  constructor(
+    public inner: DemTransport,
+    private baseUrl?: string
+  ) {}
+
+  get kind() {
+    return this.inner.kind;
+  }
+
+  async send(request: DemRequest): Promise<DemTransportResponse> {
+    const response = await this.inner.send(request);
+    const bodyHash = await hashRequestBody(request.body);
+
+    let body: unknown;
+    try {
+      body = response.body ? JSON.parse(response.body) : undefined;
+    } catch {
+      // Non-JSON responses cannot be replayed, so they are not recorded
+      return response;
+    }
+
+    this.entries.set(`${request.method} ${request.path} ${bodyHash}`, {
+      method: request.method,
+      path: request.path,
+      bodyHash,
+      status: response.status,
+      body,
+    });
+
+    return response;
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  toBundle(): FixtureBundle {
+    return {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      baseUrl: this.baseUrl,
+      entries: [...this.entries.values()],
+    };
+  }
+}
+
+function parseFixtureBundle(json: string): FixtureBundle {
+  const bundle = JSON.parse(json) as Partial<FixtureBundle>;
+  if (bundle?.version !== 1 || !Array.isArray(bundle.entries)) {
+    throw new Error('Not a DEM fixture bundle (expected version 1 with an entries array)');
+  }
+  return bundle as FixtureBundle;
+}
+
+export { HttpTransport, FixtureTransport, RecordingTransport, hashRequestBody, parseFixtureBundle };
+export type { DemTransportKind, DemRequest, DemTransportResponse, DemTransport, FixtureEntry, FixtureBundle };
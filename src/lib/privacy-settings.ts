@@ -0,0 +1,49 @@
+/**
+ * Privacy preferences from the Settings page, persisted in localStorage
+ * The DEM enforces its own minimum; this is the threshold the UI checks cohorts against.
+ */
+
+interface PrivacySettings {
+  // Smallest group a cohort may have before its aggregates are suppressed
+  kAnonymity: number;
+}
+
+const STORAGE_KEY = 'nextmatrix.privacy';
+
+const K_ANONYMITY_OPTIONS = [5, 10, 20, 50];
+
+const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = { kAnonymity: 10 };
+
+function readStorage(): PrivacySettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_PRIVACY_SETTINGS, ...(JSON.parse(raw) as Partial<PrivacySettings>) } : DEFAULT_PRIVACY_SETTINGS;
+  } catch {
+    return DEFAULT_PRIVACY_SETTINGS;
+  }
+}
+
+let state: PrivacySettings = readStorage();
+const listeners = new Set<() => void>();
+
+export const privacySettingsStore = {
+  getState(): PrivacySettings {
+    return state;
+  },
+
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  update(changes: Partial<PrivacySettings>) {
+    state = { ...state, ...changes };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    listeners.forEach((listener) => listener());
+  },
+};
+
+export { K_ANONYMITY_OPTIONS, DEFAULT_PRIVACY_SETTINGS };
+export type { PrivacySettings };
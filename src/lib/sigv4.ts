@@ -0,0 +1,206 @@
+/**
+ * AWS Signature Version 4 request signing
+ * Implements the canonical request / string-to-sign / HMAC chain with Web Crypto
+ * so it runs unchanged in the browser and in Node 18+.
+ */
+
+interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+interface SigV4Request {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: string | ArrayBuffer | Uint8Array | null;
+}
+
+interface SigV4Options {
+  region: string;
+  service: string;
+  credentials: SigV4Credentials;
+  date?: Date;
+  /**
+   * Escape the already-encoded URL path a second time, as every service except S3 expects.
+   * Disable it when signing raw test-suite paths that were never percent-encoded.
+   */
+  uriEscapePath?: boolean;
+}
+
+interface SignedRequest {
+  /** Headers to add to the outgoing request (Authorization, X-Amz-Date, ...) */
+  headers: Record<string, string>;
+  canonicalRequest: string;
+  stringToSign: string;
+  signature: string;
+}
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+// Headers that proxies or the browser may rewrite, so they must never be part of the signature
+const UNSIGNABLE_HEADERS = new Set(['authorization', 'user-agent', 'expect', 'x-amzn-trace-id', 'connection']);
+
+const encoder = new TextEncoder();
+
+function toBytes(data: string | ArrayBuffer | Uint8Array): Uint8Array {
+  if (typeof data === 'string') return encoder.encode(data);
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function sha256Hex(data: string | ArrayBuffer | Uint8Array): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', toBytes(data)));
+}
+
+async function hmac(key: string | ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    toBytes(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+/** RFC 3986 encoding: everything except unreserved characters is percent-encoded */
+export function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/** `20150830T123600Z` */
+export function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+function normalizePath(pathname: string): string {
+  const segments: string[] = [];
+  for (const segment of pathname.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  const trailingSlash = segments.length > 0 && pathname.endsWith('/');
+  return `/${segments.join('/')}${trailingSlash ? '/' : ''}`;
+}
+
+function canonicalUri(pathname: string, uriEscapePath: boolean): string {
+  return normalizePath(pathname)
+    .split('/')
+    .map((segment) => (uriEscapePath ? uriEncode(segment) : uriEncode(safeDecode(segment))))
+    .join('/');
+}
+
+function canonicalQuery(search: string): string {
+  if (!search || search === '?') return '';
+
+  return search
+    .replace(/^\?/, '')
+    .split('&')
+    .filter(Boolean)
+    .map((pair) => {
+      const [key, ...rest] = pair.split('=');
+      return [uriEncode(safeDecode(key.replace(/\+/g, ' '))), uriEncode(safeDecode(rest.join('=').replace(/\+/g, ' ')))];
+    })
+    .sort(([aKey, aValue], [bKey, bValue]) => (aKey === bKey ? (aValue < bValue ? -1 : 1) : aKey < bKey ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+function canonicalHeaders(headers: Record<string, string>): { canonical: string; signed: string } {
+  const normalized = new Map<string, string[]>();
+
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase().trim();
+    if (UNSIGNABLE_HEADERS.has(key)) continue;
+    const values = normalized.get(key) ?? [];
+    values.push(value.trim().replace(/\s+/g, ' '));
+    normalized.set(key, values);
+  }
+
+  const names = [...normalized.keys()].sort();
+  return {
+    canonical: names.map((name) => `${name}:${normalized.get(name)!.join(',')}\n`).join(''),
+    signed: names.join(';'),
+  };
+}
+
+async function deriveSigningKey(secretAccessKey: string, dateStamp: string, region: string, service: string): Promise<ArrayBuffer> {
+  const dateKey = await hmac(`AWS4${secretAccessKey}`, dateStamp);
+  const regionKey = await hmac(dateKey, region);
+  const serviceKey = await hmac(regionKey, service);
+  return hmac(serviceKey, 'aws4_request');
+}
+
+/**
+ * Sign a request with SigV4.
+ * `host`, `x-amz-date` and (when present) `x-amz-security-token` are always signed,
+ * together with every header passed in except the ones intermediaries may rewrite.
+ */
+export async function signRequest(request: SigV4Request, options: SigV4Options): Promise<SignedRequest> {
+  const { region, service, credentials, uriEscapePath = true } = options;
+  const url = new URL(request.url);
+  const amzDate = toAmzDate(options.date ?? new Date());
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headersToSign: Record<string, string> = { ...request.headers };
+  // Callers may pass any casing; make sure we do not end up with duplicated host/date entries
+  for (const name of Object.keys(headersToSign)) {
+    if (['host', 'x-amz-date', 'x-amz-security-token'].includes(name.toLowerCase())) {
+      delete headersToSign[name];
+    }
+  }
+  headersToSign['host'] = url.host;
+  headersToSign['x-amz-date'] = amzDate;
+  if (credentials.sessionToken) {
+    headersToSign['x-amz-security-token'] = credentials.sessionToken;
+  }
+
+  const { canonical, signed } = canonicalHeaders(headersToSign);
+  const payloadHash = await sha256Hex(request.body ?? '');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalUri(url.pathname, uriEscapePath),
+    canonicalQuery(url.search),
+    canonical,
+    signed,
+    payloadHash,
+  ].join('\n');
+
+  const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, credentialScope, await sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = await deriveSigningKey(credentials.secretAccessKey, dateStamp, region, service);
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  const headers: Record<string, string> = {
+    Authorization: `${ALGORITHM} Credential=${credentials.accessKeyId}/${credentialScope}, SignedHeaders=${signed}, Signature=${signature}`,
+    'X-Amz-Date': amzDate,
+  };
+  if (credentials.sessionToken) {
+    headers['X-Amz-Security-Token'] = credentials.sessionToken;
+  }
+
+  return { headers, canonicalRequest, stringToSign, signature };
+}
+
+export type { SigV4Credentials, SigV4Request, SigV4Options, SignedRequest };
@@ -0,0 +1,367 @@
+/**
+ * Cox proportional hazards regression
+ * Newton-Raphson on the partial likelihood with Breslow or Efron handling of tied failure
+ * times, plus Harrell's C-index and the Grambsch-Therneau test of proportional hazards
+ * on scaled Schoenfeld residuals.
+ */
+
+import { chiSquareSf, normalCdf, normalQuantile } from './survival-distributions';
+import { kaplanMeierFromRecords, type SurvivalRecord } from './survival-km';
+import { invert, zeroMatrix, zeros } from './survival-matrix';
+
+type TieMethod = 'breslow' | 'efron';
+
+interface CoxRecord extends SurvivalRecord {
+  covariates: Record<string, number>;
+}
+
+interface CoxCoefficient {
+  feature: string;
+  beta: number;
+  se: number;
+  hazardRatio: number;
+  lower: number;
+  upper: number;
+  z: number;
+  p: number;
+}
+
+interface PhTestResult {
+  feature: string;
+  // Correlation between the scaled residuals and transformed time
+  rho: number;
+  chisq: number;
+  p: number;
+}
+
+interface ProportionalHazardsTest {
+  transform: 'km';
+  features: PhTestResult[];
+  global: { chisq: number; df: number; p: number };
+}
+
+interface CoxFit {
+  ties: TieMethod;
+  features: string[];
+  coefficients: CoxCoefficient[];
+  // Covariate means; the baseline below is for a run at these values
+  means: Record<string, number>;
+  baseline: { t: number[]; cumulativeHazard: number[] };
+  logLikelihood: number;
+  nullLogLikelihood: number;
+  concordance: number;
+  phTest: ProportionalHazardsTest;
+  n: number;
+  events: number;
+  iterations: number;
+  converged: boolean;
+}
+
+interface CoxFitOptions {
+  ties?: TieMethod;
+  confidence?: number;
+  maxIterations?: number;
+  tolerance?: number;
+}
+
+// Failures sharing one time, with the risk set just before it
+interface EventGroup {
+  time: number;
+  // Indices (into the time-sorted records) of the runs that failed at `time`
+  failed: number[];
+  // Runs at risk are sorted[riskStart..]
+  riskStart: number;
+}
+
+function groupEvents(durations: number[], events: boolean[]): EventGroup[] {
+  const groups: EventGroup[] = [];
+  for (let i = 0; i < durations.length; ) {
+    const time = durations[i];
+    const riskStart = i;
+    const failed: number[] = [];
+    for (; i < durations.length && durations[i] === time; i++) {
+      if (events[i]) failed.push(i);
+    }
+    if (failed.length > 0) groups.push({ time, failed, riskStart });
+  }
+  return groups;
+}
+
+/**
+ * Partial log-likelihood with its gradient and information matrix at `beta`.
+ * Also returns, per event group, the weighted covariate mean(s) needed for Schoenfeld residuals.
+ */
+function partialLikelihood(x: number[][], groups: EventGroup[], beta: number[], ties: TieMethod) {
+  const n = x.length;
+  const p = beta.length;
+  const risk = x.map((row) => Math.exp(row.reduce((sum, value, j) => sum + value * beta[j], 0)));
+
+  let logLikelihood = 0;
+  const gradient = zeros(p);
+  const information = zeroMatrix(p);
+  const expected: number[][] = new Array(groups.length);
+
+  // Running sums over the risk set, grown from the longest duration down
+  let s0 = 0;
+  const s1 = zeros(p);
+  const s2 = zeroMatrix(p);
+  let next = n - 1;
+
+  for (let g = groups.length - 1; g >= 0; g--) {
+    const group = groups[g];
+    for (; next >= group.riskStart; next--) {
+      s0 += risk[next];
+      for (let j = 0; j < p; j++) {
+        s1[j] += risk[next] * x[next][j];
+        for (let k = 0; k <= j; k++) s2[j][k] += risk[next] * x[next][j] * x[next][k];
+      }
+    }
+
+    const d = group.failed.length;
+    // Sums over the tied failures, subtracted progressively under Efron
+    let t0 = 0;
+    const t1 = zeros(p);
+    const t2 = zeroMatrix(p);
+    for (const i of group.failed) {
+      t0 += risk[i];
+      for (let j = 0; j < p; j++) {
+        t1[j] += risk[i] * x[i][j];
+        gradient[j] += x[i][j];
+        for (let k = 0; k <= j; k++) t2[j][k] += risk[i] * x[i][j] * x[i][k];
+      }
+      logLikelihood += Math.log(risk[i]);
+    }
+
+    const mean = zeros(p);
+    for (let r = 0; r < d; r++) {
+      const fraction = ties === 'efron' ? r / d : 0;
+      const phi = s0 - fraction * t0;
+      logLikelihood -= Math.log(phi);
+      const m = zeros(p);
+      for (let j = 0; j < p; j++) {
+        m[j] = (s1[j] - fraction * t1[j]) / phi;
+        gradient[j] -= m[j];
+        mean[j] += m[j] / d;
+      }
+      for (let j = 0; j < p; j++) {
+        for (let k = 0; k <= j; k++) {
+          information[j][k] += (s2[j][k] - fraction * t2[j][k]) / phi - m[j] * m[k];
+        }
+      }
+    }
+    expected[g] = mean;
+  }
+
+  for (let j = 0; j < p; j++) {
+    for (let k = 0; k < j; k++) information[k][j] = information[j][k];
+  }
+
+  return { logLikelihood, gradient, information, expected, risk };
+}
+
+/** Harrell's C: share of comparable pairs where the run that failed first had the higher risk score */
+export function concordanceIndex(records: SurvivalRecord[], riskScores: number[]): number {
+  const order = records.map((_, index) => index).sort((a, b) => records[a].duration - records[b].duration);
+  const durations = order.map((index) => records[index].duration);
+  const events = order.map((index) => records[index].event);
+  const scores = order.map((index) => riskScores[index]);
+
+  let concordant = 0;
+  let comparable = 0;
+  for (let i = 0; i < order.length; i++) {
+    if (!events[i]) continue;
+    // Everything after the tie block outlived run i; within it, a run censored at the same time did too
+    let j = i;
+    while (j > 0 && durations[j - 1] === durations[i]) j--;
+    for (; j < order.length; j++) {
+      if (j === i || (durations[j] === durations[i] && events[j])) continue;
+      comparable++;
+      if (scores[i] > scores[j]) concordant++;
+      else if (scores[i] === scores[j]) concordant += 0.5;
+    }
+  }
+  return comparable === 0 ? 0.5 : concordant / comparable;
+}
+
+export function fitCox(records: CoxRecord[], features: string[], options: CoxFitOptions = {}): CoxFit | null {
+  const ties = options.ties ?? 'efron';
+  const confidence = options.confidence ?? 0.95;
+  const maxIterations = options.maxIterations ?? 50;
+  const tolerance = options.tolerance ?? 1e-9;
+  const p = features.length;
+
+  const usable = records.filter((record) => features.every((feature) => Number.isFinite(record.covariates[feature])));
+  const sorted = [...usable].sort((a, b) => a.duration - b.duration);
+  const durations = sorted.map((record) => record.duration);
+  const events = sorted.map((record) => record.event);
+  const groups = groupEvents(durations, events);
+  if (p === 0 || groups.length === 0) return null;
+
+  // Centering keeps exp(x'β) in range and makes the baseline refer to the average run
+  const means = Object.fromEntries(
+    features.map((feature) => [feature, sorted.reduce((sum, record) => sum + record.covariates[feature], 0) / sorted.length])
+  );
+  const x = sorted.map((record) => features.map((feature) => record.covariates[feature] - means[feature]));
+
+  let beta = zeros(p);
+  let current = partialLikelihood(x, groups, beta, ties);
+  const nullLogLikelihood = current.logLikelihood;
+  let iterations = 0;
+  let converged = false;
+
+  for (; iterations < maxIterations; iterations++) {
+    const covariance = invert(current.information);
+    if (!covariance) break;
+    const step = covariance.map((row) => row.reduce((sum, value, k) => sum + value * current.gradient[k], 0));
+
+    // Step-halving guards against overshooting when the likelihood is flat or separated
+    let scale = 1;
+    let candidate = beta.map((value, j) => value + step[j]);
+    let next = partialLikelihood(x, groups, candidate, ties);
+    while (next.logLikelihood < current.logLikelihood - 1e-12 && scale > 1 / 1024) {
+      scale /= 2;
+      candidate = beta.map((value, j) => value + scale * step[j]);
+      next = partialLikelihood(x, groups, candidate, ties);
+    }
+
+    const improvement = Math.abs(next.logLikelihood - current.logLikelihood);
+    beta = candidate;
+    current = next;
+    if (improvement < tolerance * Math.max(1, Math.abs(current.logLikelihood))) {
+      converged = true;
+      iterations++;
+      break;
+    }
+  }
+
+  const covariance = invert(current.information);
+  if (!covariance) return null;
+
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const coefficients: CoxCoefficient[] = features.map((feature, j) => {
+    const se = Math.sqrt(covariance[j][j]);
+    const wald = beta[j] / se;
+    return {
+      feature,
+      beta: beta[j],
+      se,
+      hazardRatio: Math.exp(beta[j]),
+      lower: Math.exp(beta[j] - z * se),
+      upper: Math.exp(beta[j] + z * se),
+      z: wald,
+      p: 2 * (1 - normalCdf(Math.abs(wald))),
+    };
+  });
+
+  // Breslow estimate of the cumulative baseline hazard at the covariate means
+  const baseline = { t: [0], cumulativeHazard: [0] };
+  let cumulative = 0;
+  for (const group of groups) {
+    let riskSum = 0;
+    for (let i = group.riskStart; i < sorted.length; i++) riskSum += current.risk[i];
+    cumulative += group.failed.length / riskSum;
+    baseline.t.push(group.time);
+    baseline.cumulativeHazard.push(cumulative);
+  }
+
+  const riskScores = x.map((row) => row.reduce((sum, value, j) => sum + value * beta[j], 0));
+
+  return {
+    ties,
+    features,
+    coefficients,
+    means,
+    baseline,
+    logLikelihood: current.logLikelihood,
+    nullLogLikelihood,
+    concordance: concordanceIndex(sorted, riskScores),
+    phTest: schoenfeldTest(sorted, x, groups, current.expected, covariance, beta, features),
+    n: sorted.length,
+    events: groups.reduce((sum, group) => sum + group.failed.length, 0),
+    iterations,
+    converged,
+  };
+}
+
+/**
+ * Grambsch-Therneau score test: regress the scaled Schoenfeld residuals on g(t) = 1 - KM(t).
+ * A slope in any covariate means its hazard ratio drifts over the life of the bit.
+ */
+function schoenfeldTest(
+  sorted: SurvivalRecord[],
+  x: number[][],
+  groups: EventGroup[],
+  expected: number[][],
+  covariance: number[][],
+  beta: number[],
+  features: string[]
+): ProportionalHazardsTest {
+  const p = features.length;
+  const km = kaplanMeierFromRecords(sorted);
+  const kmAt = (time: number) => {
+    let s = 1;
+    for (let i = 0; i < km.t.length && km.t[i] <= time; i++) s = km.s[i];
+    return s;
+  };
+
+  // One residual per failure; tied failures share their group's expected covariate vector
+  const g: number[] = [];
+  const residuals: number[][] = [];
+  groups.forEach((group, index) => {
+    const transformed = 1 - kmAt(group.time);
+    for (const i of group.failed) {
+      g.push(transformed);
+      residuals.push(x[i].map((value, j) => value - expected[index][j]));
+    }
+  });
+
+  const events = g.length;
+  const gMean = g.reduce((sum, value) => sum + value, 0) / events;
+  const centered = g.map((value) => value - gMean);
+  const gSquares = centered.reduce((sum, value) => sum + value * value, 0);
+
+  // u = Σ (g - ḡ) r, the covariance of transformed time with the raw residuals
+  const u = zeros(p);
+  residuals.forEach((residual, k) => {
+    for (let j = 0; j < p; j++) u[j] += centered[k] * residual[j];
+  });
+  const vu = covariance.map((row) => row.reduce((sum, value, k) => sum + value * u[k], 0));
+
+  const featureResults = features.map((feature, j) => {
+    const chisq = gSquares > 0 ? (events * vu[j] * vu[j]) / (covariance[j][j] * gSquares) : 0;
+
+    // Correlation of g(t) with the scaled residuals r* = events · V r + β
+    const scaled = residuals.map((residual) => events * covariance[j].reduce((sum, value, k) => sum + value * residual[k], 0) + beta[j]);
+    const scaledMean = scaled.reduce((sum, value) => sum + value, 0) / events;
+    let cross = 0;
+    let scaledSquares = 0;
+    scaled.forEach((value, k) => {
+      cross += centered[k] * (value - scaledMean);
+      scaledSquares += (value - scaledMean) ** 2;
+    });
+    const rho = gSquares > 0 && scaledSquares > 0 ? cross / Math.sqrt(gSquares * scaledSquares) : 0;
+
+    return { feature, rho, chisq, p: chiSquareSf(chisq, 1) };
+  });
+
+  const globalChisq = gSquares > 0 ? (events * u.reduce((sum, value, j) => sum + value * vu[j], 0)) / gSquares : 0;
+
+  return {
+    transform: 'km',
+    features: featureResults,
+    global: { chisq: globalChisq, df: p, p: chiSquareSf(globalChisq, p) },
+  };
+}
+
+/** Survival of a run with the given covariates, from the fitted baseline */
+export function coxSurvival(fit: Pick<CoxFit, 'baseline' | 'coefficients' | 'means'>, t: number, covariates: Record<string, number> = {}): number {
+  const linear = fit.coefficients.reduce(
+    (sum, coefficient) => sum + coefficient.beta * ((covariates[coefficient.feature] ?? fit.means[coefficient.feature]) - fit.means[coefficient.feature]),
+    0
+  );
+  let cumulative = 0;
+  for (let i = 0; i < fit.baseline.t.length && fit.baseline.t[i] <= t; i++) cumulative = fit.baseline.cumulativeHazard[i];
+  return Math.exp(-cumulative * Math.exp(linear));
+}
+
+export type { TieMethod, CoxRecord, CoxCoefficient, PhTestResult, ProportionalHazardsTest, CoxFit, CoxFitOptions };
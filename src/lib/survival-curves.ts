@@ -0,0 +1,65 @@
+/**
+ * Putting several curves on one time axis
+ * Cohorts fail and get censored at different times, so their curves come on different grids.
+ * Merging takes the union of the time points and reads every curve at each of them: step
+ * functions carry their last value forward, smooth curves are interpolated linearly.
+ */
+
+interface Curve {
+  t: number[];
+  values: number[];
+  // Linear interpolation between points instead of carrying the last value forward
+  smooth?: boolean;
+}
+
+interface MergedCurves {
+  t: number[];
+  // One row per input curve, aligned with `t`; null outside the curve's own time range
+  values: (number | null)[][];
+}
+
+interface CurveDifference {
+  t: number[];
+  // other - reference, where both curves are defined
+  delta: number[];
+}
+
+/** Value of the curve at `t`, or null before its first or after its last time point */
+export function valueAt(curve: Curve, t: number): number | null {
+  const { t: times, values } = curve;
+  if (times.length === 0 || t < times[0] || t > times[times.length - 1]) return null;
+
+  // Last index with times[index] <= t
+  let low = 0;
+  let high = times.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (times[middle] <= t) low = middle;
+    else high = middle - 1;
+  }
+
+  if (!curve.smooth || times[low] === t || low === times.length - 1) return values[low];
+  const fraction = (t - times[low]) / (times[low + 1] - times[low]);
+  return values[low] + fraction * (values[low + 1] - values[low]);
+}
+
+export function mergeCurves(curves: Curve[]): MergedCurves {
+  const t = [...new Set(curves.flatMap((curve) => curve.t))].sort((a, b) => a - b);
+  return { t, values: curves.map((curve) => t.map((time) => valueAt(curve, time))) };
+}
+
+/** Pointwise difference of two curves over the union of their time points */
+export function curveDifference(reference: Curve, other: Curve): CurveDifference {
+  const merged = mergeCurves([reference, other]);
+  const difference: CurveDifference = { t: [], delta: [] };
+  merged.t.forEach((time, index) => {
+    const base = merged.values[0][index];
+    const value = merged.values[1][index];
+    if (base === null || value === null) return;
+    difference.t.push(time);
+    difference.delta.push(value - base);
+  });
+  return difference;
+}
+
+export type { Curve, MergedCurves, CurveDifference };
@@ -0,0 +1,110 @@
+/**
+ * Hazard estimation
+ * Nelson-Aalen cumulative hazard from a risk table (or -log S from a survival curve when that
+ * is all there is, as for model predictions), smoothed into a hazard rate with an
+ * Epanechnikov kernel (Ramlau-Hansen).
+ */
+
+import type { RiskTable } from './survival-km';
+
+interface CumulativeHazard {
+  t: number[];
+  cumulativeHazard: number[];
+  // Nelson-Aalen variance; absent when derived from a survival curve
+  variance?: number[];
+}
+
+interface SmoothedHazard {
+  t: number[];
+  h: number[];
+  bandwidth: number;
+}
+
+interface SmoothingOptions {
+  // Kernel half-width in the curve's time unit; chosen from the data when omitted
+  bandwidth?: number;
+  // Times to evaluate at; defaults to the jump times of the cumulative hazard
+  grid?: number[];
+}
+
+const epanechnikov = (u: number) => (Math.abs(u) < 1 ? 0.75 * (1 - u * u) : 0);
+
+// Kernel mass on [-1, x] for x in [-1, 1]
+const epanechnikovMass = (x: number) => {
+  const u = Math.max(-1, Math.min(1, x));
+  return 0.75 * (u - (u * u * u) / 3) + 0.5;
+};
+
+export function nelsonAalen(table: RiskTable): CumulativeHazard & { variance: number[] } {
+  const estimate = { t: [0], cumulativeHazard: [0], variance: [0] };
+  let cumulative = 0;
+  let variance = 0;
+  table.t.forEach((t, index) => {
+    const n = table.atRisk[index];
+    const d = table.events[index];
+    if (n > 0 && d > 0) {
+      cumulative += d / n;
+      variance += d / (n * n);
+    }
+    if (t === 0) {
+      estimate.cumulativeHazard[0] = cumulative;
+      estimate.variance[0] = variance;
+      return;
+    }
+    estimate.t.push(t);
+    estimate.cumulativeHazard.push(cumulative);
+    estimate.variance.push(variance);
+  });
+  return estimate;
+}
+
+/** H(t) = -log S(t); stops where the curve reaches zero and the hazard is no longer finite */
+export function cumulativeHazardFromSurvival(curve: { t: number[]; s: number[] }): CumulativeHazard {
+  const estimate: CumulativeHazard = { t: [], cumulativeHazard: [] };
+  for (let index = 0; index < curve.t.length && curve.s[index] > 0; index++) {
+    estimate.t.push(curve.t[index]);
+    estimate.cumulativeHazard.push(-Math.log(Math.min(1, curve.s[index])));
+  }
+  return estimate;
+}
+
+function increments(hazard: CumulativeHazard) {
+  return hazard.t
+    .map((t, index) => ({ t, dH: hazard.cumulativeHazard[index] - (hazard.cumulativeHazard[index - 1] ?? 0) }))
+    .filter((jump) => jump.dH > 0);
+}
+
+/**
+ * Rule-of-thumb bandwidth: Silverman's 1.06·σ·m^(-1/5) on the jump times weighted by their size,
+ * with m the number of jumps. A starting point, not an optimum; the charts let users override it.
+ */
+export function defaultBandwidth(hazard: CumulativeHazard): number {
+  const jumps = increments(hazard);
+  const total = jumps.reduce((sum, jump) => sum + jump.dH, 0);
+  if (jumps.length < 2 || total === 0) return Math.max(1, hazard.t[hazard.t.length - 1] ?? 1);
+  const mean = jumps.reduce((sum, jump) => sum + jump.t * jump.dH, 0) / total;
+  const sd = Math.sqrt(jumps.reduce((sum, jump) => sum + jump.dH * (jump.t - mean) ** 2, 0) / total);
+  return Math.max(1.06 * sd * Math.pow(jumps.length, -1 / 5), Number.EPSILON);
+}
+
+/**
+ * Kernel-smoothed hazard rate h(t) = Σ K((t - tᵢ)/b) ΔHᵢ / b. Near t = 0 the kernel is renormalised
+ * to its mass on [0, ∞) so the estimate is not dragged down by the missing left side.
+ * Grid points past the last jump time are dropped rather than extrapolated.
+ */
+export function smoothedHazard(hazard: CumulativeHazard, options: SmoothingOptions = {}): SmoothedHazard {
+  const bandwidth = options.bandwidth ?? defaultBandwidth(hazard);
+  const jumps = increments(hazard);
+  const end = hazard.t[hazard.t.length - 1] ?? 0;
+  const grid = (options.grid ?? hazard.t).filter((t) => t >= 0 && t <= end);
+
+  const h = grid.map((t) => {
+    const boundary = epanechnikovMass(t / bandwidth);
+    let rate = 0;
+    for (const jump of jumps) rate += epanechnikov((t - jump.t) / bandwidth) * jump.dH;
+    return rate / bandwidth / boundary;
+  });
+  return { t: grid, h, bandwidth };
+}
+
+export type { CumulativeHazard, SmoothedHazard, SmoothingOptions };
@@ -0,0 +1,181 @@
+/**
+ * Kaplan-Meier (product-limit) estimator
+ * Works from per-run records or from the aggregated risk-set tables the DEM releases,
+ * and reports Greenwood variance with log-log confidence bands.
+ */
+
+import { normalQuantile } from './survival-distributions';
+
+interface SurvivalRecord {
+  // Hours (or footage) until failure or until the run was pulled without failing
+  duration: number;
+  // false when the run was censored
+  event: boolean;
+}
+
+/** Counts at each distinct time; `atRisk` is the number of runs still running just before `t` */
+interface RiskTable {
+  t: number[];
+  atRisk: number[];
+  events: number[];
+  censored: number[];
+}
+
+interface KaplanMeierEstimate extends RiskTable {
+  s: number[];
+  // Greenwood variance of s
+  variance: number[];
+  lower: number[];
+  upper: number[];
+  confidence: number;
+}
+
+/** Area under the survival curve up to `horizon`: expected hours of life within that window */
+interface RestrictedMean {
+  horizon: number;
+  mean: number;
+  // Null when the curve comes without the risk table the variance needs
+  se: number | null;
+}
+
+interface KaplanMeierOptions {
+  // Two-sided coverage of the pointwise bands
+  confidence?: number;
+}
+
+export function riskTableFromRecords(records: SurvivalRecord[]): RiskTable {
+  const sorted = [...records].sort((a, b) => a.duration - b.duration);
+  const table: RiskTable = { t: [], atRisk: [], events: [], censored: [] };
+
+  let remaining = sorted.length;
+  for (let i = 0; i < sorted.length; ) {
+    const time = sorted[i].duration;
+    let events = 0;
+    let censored = 0;
+    for (; i < sorted.length && sorted[i].duration === time; i++) {
+      if (sorted[i].event) events++;
+      else censored++;
+    }
+    table.t.push(time);
+    table.atRisk.push(remaining);
+    table.events.push(events);
+    table.censored.push(censored);
+    remaining -= events + censored;
+  }
+
+  return table;
+}
+
+export function kaplanMeier(table: RiskTable, options: KaplanMeierOptions = {}): KaplanMeierEstimate {
+  const confidence = options.confidence ?? 0.95;
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const estimate: KaplanMeierEstimate = {
+    t: [],
+    atRisk: [],
+    events: [],
+    censored: [],
+    s: [],
+    variance: [],
+    lower: [],
+    upper: [],
+    confidence,
+  };
+
+  const push = (index: number | null, s: number, greenwood: number) => {
+    estimate.t.push(index === null ? 0 : table.t[index]);
+    estimate.atRisk.push(index === null ? table.atRisk[0] ?? 0 : table.atRisk[index]);
+    estimate.events.push(index === null ? 0 : table.events[index]);
+    estimate.censored.push(index === null ? 0 : table.censored[index]);
+    estimate.s.push(s);
+    estimate.variance.push(s > 0 && Number.isFinite(greenwood) ? s * s * greenwood : 0);
+
+    if (s >= 1 || s <= 0) {
+      estimate.lower.push(s);
+      estimate.upper.push(s);
+      return;
+    }
+    // log(-log S) is far closer to normal than S near 0 and 1, and keeps the band inside [0, 1]
+    const se = Math.sqrt(greenwood) / Math.abs(Math.log(s));
+    estimate.lower.push(Math.pow(s, Math.exp(z * se)));
+    estimate.upper.push(Math.pow(s, Math.exp(-z * se)));
+  };
+
+  // Anchor the curve at S(0) = 1 unless the table already starts there
+  if (table.t.length === 0 || table.t[0] > 0) push(null, 1, 0);
+
+  let s = 1;
+  let greenwood = 0;
+  table.t.forEach((_, index) => {
+    const n = table.atRisk[index];
+    const d = table.events[index];
+    if (n > 0 && d > 0) {
+      s *= 1 - d / n;
+      greenwood = n > d ? greenwood + d / (n * (n - d)) : Infinity;
+    }
+    push(index, s, greenwood);
+  });
+
+  return estimate;
+}
+
+export function kaplanMeierFromRecords(records: SurvivalRecord[], options: KaplanMeierOptions = {}): KaplanMeierEstimate {
+  return kaplanMeier(riskTableFromRecords(records), options);
+}
+
+/**
+ * Time by which a fraction `q` of runs has failed, or null if the curve never gets there.
+ * This is the smallest t with S(t) < 1 - q; when the curve sits exactly on 1 - q over an
+ * interval, the midpoint of that interval (the convention R's survfit uses for the median).
+ */
+export function failureQuantile(estimate: Pick<KaplanMeierEstimate, 't' | 's'>, q: number): number | null {
+  // Tolerance so a product that should land exactly on 1 - q is not missed to rounding
+  const target = 1 - q;
+  const index = estimate.s.findIndex((s) => s <= target + 1e-12);
+  if (index === -1) return null;
+  if (Math.abs(estimate.s[index] - target) > 1e-12) return estimate.t[index];
+
+  const next = estimate.s.findIndex((s, i) => i > index && s < target - 1e-12);
+  return next === -1 ? estimate.t[index] : (estimate.t[index] + estimate.t[next]) / 2;
+}
+
+/** Runs still under observation at `t`, i.e. with a duration of at least `t` */
+export function numberAtRisk(table: RiskTable, t: number): number {
+  const index = table.t.findIndex((time) => time >= t);
+  return index === -1 ? 0 : table.atRisk[index];
+}
+
+/**
+ * Restricted mean survival time: the integral of the step curve from 0 to `horizon`, which is
+ * capped at the last observed time since the curve is unknown beyond it. The standard error
+ * uses the usual Greenwood-type sum over failure times when the risk table is available.
+ */
+export function restrictedMeanSurvival(
+  estimate: Pick<KaplanMeierEstimate, 't' | 's'> & Partial<Pick<KaplanMeierEstimate, 'atRisk' | 'events'>>,
+  horizon?: number
+): RestrictedMean {
+  const { t, s } = estimate;
+  const end = Math.min(horizon ?? t[t.length - 1] ?? 0, t[t.length - 1] ?? 0);
+
+  // Area of each step to the right of t[i], up to the horizon
+  const areas = t.map((time, index) => {
+    if (time >= end) return 0;
+    const right = Math.min(t[index + 1] ?? end, end);
+    return s[index] * (right - time);
+  });
+  // The curve is 1 before its first time point
+  const mean = Math.min(t[0] ?? 0, end) + areas.reduce((sum, area) => sum + area, 0);
+
+  if (!estimate.atRisk || !estimate.events) return { horizon: end, mean, se: null };
+  let variance = 0;
+  let tail = 0;
+  for (let index = t.length - 1; index >= 0; index--) {
+    tail += areas[index];
+    const n = estimate.atRisk[index];
+    const d = estimate.events[index];
+    if (t[index] >= end || d === 0) continue;
+    variance += n > d ? (tail * tail * d) / (n * (n - d)) : 0;
+  }
+  return { horizon: end, mean, se: Math.sqrt(variance) };
+}
+
+export type { SurvivalRecord, RiskTable, KaplanMeierEstimate, KaplanMeierOptions, RestrictedMean };
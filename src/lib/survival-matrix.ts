@@ -0,0 +1,33 @@
+/**
+ * Small dense-matrix helpers for the regression and test statistics
+ * Sized for a handful of covariates or cohorts, not for general linear algebra.
+ */
+
+export const zeros = (p: number) => new Array<number>(p).fill(0);
+export const zeroMatrix = (p: number) => Array.from({ length: p }, () => zeros(p));
+
+/** Inverse of a symmetric positive-definite matrix via Gauss-Jordan with partial pivoting */
+export function invert(matrix: number[][]): number[][] | null {
+  const p = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...zeros(p).map((_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < p; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < p; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const scale = a[col][col];
+    for (let j = 0; j < 2 * p; j++) a[col][j] /= scale;
+    for (let row = 0; row < p; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * p; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+
+  return a.map((row) => row.slice(p));
+}
@@ -0,0 +1,109 @@
+/**
+ * Model-specific survival summaries for the Dashboard
+ * Each estimator reduces to the same shape — a survival curve, a hazard curve, failure
+ * percentiles and a mean life on the cohort's time grid — so the charts and KPIs do not care
+ * which one ran.
+ */
+
+import { coxSurvival, type CoxFit } from './survival-cox';
+import { cumulativeHazardFromSurvival, nelsonAalen, smoothedHazard } from './survival-hazard';
+import { failureQuantile, kaplanMeier, restrictedMeanSurvival, type RiskTable } from './survival-km';
+import { weibullHazard, weibullMean, weibullQuantile, weibullSurvival, type WeibullFit } from './survival-weibull';
+
+type SurvivalModelType = 'km' | 'weibull' | 'cox';
+
+/**
+ * Expected life of a run. Nonparametric curves cannot say anything past their follow-up, so
+ * they report the restricted mean up to a horizon; a Weibull fit extrapolates to a full mean.
+ */
+interface MeanLife {
+  value: number;
+  method: 'rmst' | 'weibull-mean';
+  // Only for RMST: where the integral stopped, after capping at the end of follow-up
+  horizon?: number;
+  se?: number | null;
+}
+
+interface ModelOptions {
+  // RMST horizon in the curve's time unit; defaults to the end of follow-up
+  horizon?: number;
+  // Kernel bandwidth for nonparametric hazards; chosen from the data when omitted
+  bandwidth?: number;
+}
+
+interface ModelEstimate {
+  model: SurvivalModelType;
+  // `smooth` marks a continuous parametric curve; everything else is a step function
+  km: { t: number[]; s: number[]; lower?: number[]; upper?: number[]; smooth?: boolean };
+  hazard: { t: number[]; h: number[]; bandwidth?: number };
+  // Null when the curve never falls far enough within the follow-up
+  percentiles: { p10: number | null; p50: number | null; p90: number | null };
+  meanLife: MeanLife;
+}
+
+const PERCENTILES = { p10: 0.1, p50: 0.5, p90: 0.9 };
+
+function curvePercentiles(curve: { t: number[]; s: number[] }): ModelEstimate['percentiles'] {
+  return {
+    p10: failureQuantile(curve, PERCENTILES.p10),
+    p50: failureQuantile(curve, PERCENTILES.p50),
+    p90: failureQuantile(curve, PERCENTILES.p90),
+  };
+}
+
+function restrictedMeanLife(...args: Parameters<typeof restrictedMeanSurvival>): MeanLife {
+  const rmst = restrictedMeanSurvival(...args);
+  return { value: rmst.mean, method: 'rmst', horizon: rmst.horizon, se: rmst.se };
+}
+
+/** Kaplan-Meier curve as released by the DEM, for aggregates that come without a risk table */
+export function stepCurveModel(km: ModelEstimate['km'], options: ModelOptions = {}): ModelEstimate {
+  const hazard = smoothedHazard(cumulativeHazardFromSurvival(km), { bandwidth: options.bandwidth, grid: km.t });
+  return { model: 'km', km, hazard, percentiles: curvePercentiles(km), meanLife: restrictedMeanLife(km, options.horizon) };
+}
+
+/** Nonparametric curve with Greenwood bands and a kernel-smoothed Nelson-Aalen hazard */
+export function kaplanMeierModel(table: RiskTable, options: ModelOptions = {}): ModelEstimate {
+  const estimate = kaplanMeier(table);
+  const km = { t: estimate.t, s: estimate.s, lower: estimate.lower, upper: estimate.upper };
+  const hazard = smoothedHazard(nelsonAalen(table), { bandwidth: options.bandwidth, grid: km.t });
+  // The full estimate carries the risk table, so its RMST comes with a standard error
+  return { model: 'km', km, hazard, percentiles: curvePercentiles(km), meanLife: restrictedMeanLife(estimate, options.horizon) };
+}
+
+export function weibullModel(fit: WeibullFit, grid: number[]): ModelEstimate {
+  return {
+    model: 'weibull',
+    km: { t: grid, s: grid.map((t) => weibullSurvival(fit, t)), smooth: true },
+    hazard: { t: grid, h: grid.map((t) => weibullHazard(fit, t)) },
+    percentiles: {
+      p10: weibullQuantile(fit, PERCENTILES.p10),
+      p50: weibullQuantile(fit, PERCENTILES.p50),
+      p90: weibullQuantile(fit, PERCENTILES.p90),
+    },
+    meanLife: { value: weibullMean(fit), method: 'weibull-mean' },
+  };
+}
+
+/**
+ * Baseline survival of a run at the cohort's mean covariates. The Breslow baseline is a step
+ * function, so its hazard is kernel-smoothed like the Nelson-Aalen one.
+ */
+export function coxBaselineModel(
+  fit: Pick<CoxFit, 'baseline' | 'coefficients' | 'means'>,
+  grid: number[],
+  options: ModelOptions = {}
+): ModelEstimate {
+  const s = grid.map((t) => coxSurvival(fit, t));
+  // Percentiles, RMST and hazard from the baseline's own jump times, not the coarser grid
+  const baseline = { t: fit.baseline.t, s: fit.baseline.t.map((t) => coxSurvival(fit, t)) };
+  return {
+    model: 'cox',
+    km: { t: grid, s },
+    hazard: smoothedHazard(cumulativeHazardFromSurvival(baseline), { bandwidth: options.bandwidth, grid }),
+    percentiles: curvePercentiles(baseline),
+    meanLife: restrictedMeanLife(baseline, options.horizon),
+  };
+}
+
+export type { SurvivalModelType, MeanLife, ModelOptions, ModelEstimate };
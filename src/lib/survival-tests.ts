@@ -0,0 +1,131 @@
+/**
+ * Weighted log-rank family of k-sample tests
+ * All compare observed with expected failures at each pooled failure time and differ only in
+ * the weight: 1 (log-rank), the number at risk (Gehan-Breslow-Wilcoxon) or
+ * S(t-)^p·(1 - S(t-))^q of the pooled Kaplan-Meier curve (Fleming-Harrington).
+ */
+
+import { chiSquareSf } from './survival-distributions';
+import type { RiskTable } from './survival-km';
+import { invert, zeroMatrix, zeros } from './survival-matrix';
+
+type SurvivalTestWeight =
+  | { kind: 'logrank' }
+  | { kind: 'gehan' }
+  | { kind: 'fleming-harrington'; p: number; q: number };
+
+interface GroupEvents {
+  observed: number;
+  // Under the null of a common hazard
+  expected: number;
+}
+
+interface SurvivalTestResult {
+  test: string;
+  weight: SurvivalTestWeight;
+  chisq: number;
+  df: number;
+  p: number;
+  // Unweighted observed and expected failures per group, in input order
+  groups: GroupEvents[];
+}
+
+const DEFAULT_WEIGHTS: SurvivalTestWeight[] = [
+  { kind: 'logrank' },
+  { kind: 'gehan' },
+  // Emphasise early and late differences respectively
+  { kind: 'fleming-harrington', p: 1, q: 0 },
+  { kind: 'fleming-harrington', p: 0, q: 1 },
+];
+
+export function describeWeight(weight: SurvivalTestWeight): string {
+  switch (weight.kind) {
+    case 'logrank':
+      return 'Log-rank';
+    case 'gehan':
+      return 'Gehan-Breslow-Wilcoxon';
+    case 'fleming-harrington':
+      return `Fleming-Harrington (${weight.p}, ${weight.q})`;
+  }
+}
+
+// Per-group risk sets and failures at every pooled time, with pooled totals
+function poolTables(tables: RiskTable[]) {
+  const times = [...new Set(tables.flatMap((table) => table.t))].sort((a, b) => a - b);
+  return times.map((time) => {
+    const groups = tables.map((table) => {
+      const index = table.t.indexOf(time);
+      if (index !== -1) return { atRisk: table.atRisk[index], events: table.events[index] };
+      // Not a recorded time for this group: everyone still running past it is at risk
+      const next = table.t.findIndex((t) => t > time);
+      return { atRisk: next === -1 ? 0 : table.atRisk[next], events: 0 };
+    });
+    return {
+      time,
+      groups,
+      atRisk: groups.reduce((sum, group) => sum + group.atRisk, 0),
+      events: groups.reduce((sum, group) => sum + group.events, 0),
+    };
+  });
+}
+
+/**
+ * k-sample test that all groups share one survival curve. The statistic is U'V⁻U over the
+ * first k - 1 groups (the last is redundant since the U sum to zero), with k - 1 degrees of freedom.
+ * Returns null when fewer than two groups have anyone at risk or nobody failed.
+ */
+export function compareSurvival(tables: RiskTable[], weight: SurvivalTestWeight = { kind: 'logrank' }): SurvivalTestResult | null {
+  const k = tables.length;
+  if (k < 2) return null;
+
+  const u = zeros(k);
+  const v = zeroMatrix(k);
+  const groups = tables.map(() => ({ observed: 0, expected: 0 }));
+  // Pooled Kaplan-Meier just before the current time, for Fleming-Harrington weights
+  let pooledSurvival = 1;
+
+  for (const row of poolTables(tables)) {
+    const { atRisk: n, events: d } = row;
+    if (n === 0) continue;
+    if (d > 0) {
+      const w =
+        weight.kind === 'logrank' ? 1
+        : weight.kind === 'gehan' ? n
+        : Math.pow(pooledSurvival, weight.p) * Math.pow(1 - pooledSurvival, weight.q);
+      // Hypergeometric variance, with the tie correction (n - d) / (n - 1)
+      const spread = n > 1 ? (d * (n - d)) / (n - 1) : 0;
+
+      row.groups.forEach((group, j) => {
+        const expected = (d * group.atRisk) / n;
+        groups[j].observed += group.events;
+        groups[j].expected += expected;
+        u[j] += w * (group.events - expected);
+        row.groups.forEach((other, l) => {
+          const share = group.atRisk / n;
+          v[j][l] += w * w * spread * share * ((j === l ? 1 : 0) - other.atRisk / n);
+        });
+      });
+    }
+    pooledSurvival *= 1 - d / n;
+  }
+
+  const df = k - 1;
+  const reduced = v.slice(0, df).map((row) => row.slice(0, df));
+  const inverse = invert(reduced);
+  if (!inverse) return null;
+  let chisq = 0;
+  for (let j = 0; j < df; j++) {
+    for (let l = 0; l < df; l++) chisq += u[j] * inverse[j][l] * u[l];
+  }
+
+  return { test: describeWeight(weight), weight, chisq, df, p: chiSquareSf(chisq, df), groups };
+}
+
+/** The standard battery shown under the Dashboard chart; tests that cannot be computed are left out */
+export function compareSurvivalAll(tables: RiskTable[], weights: SurvivalTestWeight[] = DEFAULT_WEIGHTS): SurvivalTestResult[] {
+  return weights
+    .map((weight) => compareSurvival(tables, weight))
+    .filter((result): result is SurvivalTestResult => result !== null);
+}
+
+export type { SurvivalTestWeight, GroupEvents, SurvivalTestResult };
@@ -0,0 +1,147 @@
+/**
+ * Weibull maximum-likelihood fit for right-censored lifetimes
+ * S(t) = exp(-(t/λ)^k). For a fixed shape the scale MLE has a closed form, so the fit
+ * runs Newton-Raphson on the profile likelihood of k alone and reads λ off it.
+ */
+
+import { logGamma } from './survival-distributions';
+import { riskTableFromRecords, type RiskTable, type SurvivalRecord } from './survival-km';
+
+interface WeibullFit {
+  shape: number;
+  scale: number;
+  // Standard errors from the observed information matrix
+  shapeSE: number;
+  scaleSE: number;
+  logLikelihood: number;
+  aic: number;
+  n: number;
+  events: number;
+  iterations: number;
+  converged: boolean;
+}
+
+interface WeibullFitOptions {
+  maxIterations?: number;
+  tolerance?: number;
+}
+
+const PARAMETER_COUNT = 2;
+
+// Time-weighted sums over the risk table for a given shape, on times rescaled by `unit`
+function profileSums(times: number[], weights: number[], shape: number) {
+  let s0 = 0;
+  let s1 = 0;
+  let s2 = 0;
+  times.forEach((t, index) => {
+    const w = weights[index] * Math.pow(t, shape);
+    const log = Math.log(t);
+    s0 += w;
+    s1 += w * log;
+    s2 += w * log * log;
+  });
+  return { s0, s1, s2 };
+}
+
+export function fitWeibull(table: RiskTable, options: WeibullFitOptions = {}): WeibullFit | null {
+  const maxIterations = options.maxIterations ?? 100;
+  const tolerance = options.tolerance ?? 1e-10;
+
+  // Zero durations carry no information about the shape and break log(t)
+  const rows = table.t
+    .map((t, index) => ({ t, events: table.events[index], exits: table.events[index] + table.censored[index] }))
+    .filter((row) => row.t > 0 && row.exits > 0);
+  const events = rows.reduce((sum, row) => sum + row.events, 0);
+  const n = rows.reduce((sum, row) => sum + row.exits, 0);
+  // Need failures at two distinct times to pin down a shape
+  if (events === 0 || rows.filter((row) => row.events > 0).length < 2) return null;
+
+  // Rescale so t^k cannot overflow for long runs and steep shapes
+  const unit = Math.max(...rows.map((row) => row.t));
+  const times = rows.map((row) => row.t / unit);
+  const exits = rows.map((row) => row.exits);
+  const meanEventLog = rows.reduce((sum, row, index) => sum + row.events * Math.log(times[index]), 0) / events;
+
+  // Profile score g(k) = S1/S0 - 1/k - mean(log t over failures); g is increasing so the root is unique
+  let shape = 1;
+  let iterations = 0;
+  let converged = false;
+  for (; iterations < maxIterations; iterations++) {
+    const { s0, s1, s2 } = profileSums(times, exits, shape);
+    const score = s1 / s0 - 1 / shape - meanEventLog;
+    const slope = s2 / s0 - (s1 / s0) ** 2 + 1 / (shape * shape);
+    let next = shape - score / slope;
+    // Newton can overshoot past zero from a poor start; fall back to halving
+    if (!(next > 0)) next = shape / 2;
+    const step = Math.abs(next - shape);
+    shape = next;
+    if (step < tolerance * Math.max(1, shape)) {
+      converged = true;
+      iterations++;
+      break;
+    }
+  }
+
+  const { s0 } = profileSums(times, exits, shape);
+  const scaleUnit = Math.pow(s0 / events, 1 / shape);
+  const scale = scaleUnit * unit;
+
+  // Log-likelihood and observed information at the optimum, in original time units
+  let sumEventLog = 0;
+  let cumulative = 0;
+  let cumulativeLog = 0;
+  let cumulativeLog2 = 0;
+  rows.forEach((row) => {
+    const z = Math.log(row.t / scale);
+    const h = row.exits * Math.pow(row.t / scale, shape);
+    sumEventLog += row.events * Math.log(row.t);
+    cumulative += h;
+    cumulativeLog += h * z;
+    cumulativeLog2 += h * z * z;
+  });
+  const logLikelihood = events * Math.log(shape) - events * shape * Math.log(scale) + (shape - 1) * sumEventLog - cumulative;
+
+  const dKK = -events / (shape * shape) - cumulativeLog2;
+  const dLL = (shape * events) / (scale * scale) - ((shape * (shape + 1)) / (scale * scale)) * cumulative;
+  const dKL = -events / scale + (shape / scale) * cumulativeLog + cumulative / scale;
+  // Covariance is the inverse of -H
+  const determinant = dKK * dLL - dKL * dKL;
+
+  return {
+    shape,
+    scale,
+    shapeSE: Math.sqrt(-dLL / determinant),
+    scaleSE: Math.sqrt(-dKK / determinant),
+    logLikelihood,
+    aic: 2 * PARAMETER_COUNT - 2 * logLikelihood,
+    n,
+    events,
+    iterations,
+    converged,
+  };
+}
+
+export function fitWeibullFromRecords(records: SurvivalRecord[], options: WeibullFitOptions = {}): WeibullFit | null {
+  return fitWeibull(riskTableFromRecords(records), options);
+}
+
+export function weibullSurvival(fit: Pick<WeibullFit, 'shape' | 'scale'>, t: number): number {
+  return t <= 0 ? 1 : Math.exp(-Math.pow(t / fit.scale, fit.shape));
+}
+
+export function weibullHazard(fit: Pick<WeibullFit, 'shape' | 'scale'>, t: number): number {
+  if (t <= 0) return fit.shape < 1 ? Infinity : fit.shape === 1 ? 1 / fit.scale : 0;
+  return (fit.shape / fit.scale) * Math.pow(t / fit.scale, fit.shape - 1);
+}
+
+/** Time by which a fraction `q` of runs has failed: λ(-ln(1 - q))^(1/k) */
+export function weibullQuantile(fit: Pick<WeibullFit, 'shape' | 'scale'>, q: number): number {
+  return fit.scale * Math.pow(-Math.log(1 - q), 1 / fit.shape);
+}
+
+/** Unrestricted mean life λΓ(1 + 1/k), read off the fit rather than the observed follow-up */
+export function weibullMean(fit: Pick<WeibullFit, 'shape' | 'scale'>): number {
+  return fit.scale * Math.exp(logGamma(1 + 1 / fit.shape));
+}
+
+export type { WeibullFit, WeibullFitOptions };
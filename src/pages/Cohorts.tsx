@@ -1,130 +1,227 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Plus, X, Play, Save, Users, Shield } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Plus,
+  Play,
+  Save,
+  Users,
+  Shield,
+  Layers,
+  LineChart,
+  MoreVertical,
+  Pencil,
+  TextCursorInput,
+  Copy,
+  History,
+  Trash2,
+  RefreshCw,
+  Loader2,
+} from "lucide-react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { CohortQueryBuilder } from "@/components/CohortQueryBuilder";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useProject } from "@/hooks/use-project";
+import { useCohorts } from "@/hooks/use-cohorts";
+import { useCohortPreflight, useDatasetSchema } from "@/hooks/use-dem-query";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { usePrivacySettings } from "@/hooks/use-privacy-settings";
+import { useToast } from "@/hooks/use-toast";
+import type { Cohort, CohortSync } from "@/lib/cohort-store";
+import type { CohortPreflight, DatasetField } from "@/lib/dem-client";
+import { describeDemError } from "@/lib/dem-errors";
+import { cn } from "@/lib/utils";
+import {
+  CohortQuerySyntaxError,
+  emptyGroup,
+  formatCohortQuery,
+  isQueryComplete,
+  nodeAt,
+  parseCohortQuery,
+  queryRules,
+  type CohortGroup,
+  type CohortNode,
+} from "@/lib/cohort-query";
 
-interface CohortRule {
-  field: string;
-  operator: string;
-  value: string | string[];
-}
+const NO_FIELDS: DatasetField[] = [];
 
-interface Cohort {
-  id: string;
-  name: string;
-  rules: CohortRule[];
-  size?: number;
-  privacy?: "safe" | "suppressed";
-}
+const SYNC_LABELS: Record<CohortSync["status"], string> = {
+  local: "Stored in this browser",
+  syncing: "Syncing with DEM…",
+  synced: "Synced with DEM",
+  error: "DEM sync failed; changes kept locally",
+};
+
+const formatSavedAt = (timestamp: string) => new Date(timestamp).toLocaleDateString();
+
+// Noised counts come back fractional
+const formatRuns = (count: number) => Math.round(count).toLocaleString();
 
-const FIELD_OPTIONS = [
-  { value: "BIT_TYPE", label: "Bit Type", type: "select", options: ["PDC", "Roller", "Diamond", "Hybrid"] },
-  { value: "BIT_SIZE", label: "Bit Size", type: "range" },
-  { value: "FORMATION", label: "Formation", type: "select", options: ["Sandstone", "Shale", "Limestone", "Granite"] },
-  { value: "MUD_TYPE", label: "Mud Type", type: "select", options: ["WBM", "OBM", "SBM"] },
-  { value: "VENDOR", label: "Vendor", type: "select", options: ["Smith", "Baker", "Halliburton", "NOV"] },
-  { value: "RIG", label: "Rig", type: "select", options: ["Rig-001", "Rig-002", "Rig-003"] },
-  { value: "RPM", label: "RPM", type: "range" },
-  { value: "WOB", label: "WOB", type: "range" },
-  { value: "ROP", label: "ROP", type: "range" },
-  { value: "TEMP", label: "Temperature", type: "range" },
-  { value: "DEPTH", label: "Depth", type: "range" },
-  { value: "RUN_DATE", label: "Run Date", type: "daterange" },
-];
+// Wait for a pause in editing before asking the federation for a count
+const PREFLIGHT_DEBOUNCE_MS = 600;
+
+// The rule whose removal would grow the cohort the most
+function narrowestRule(query: CohortGroup, preflight: CohortPreflight) {
+  let narrowest: { rule: CohortNode; countWithout: number } | null = null;
+  for (const { path, countWithout } of preflight.rules) {
+    const rule = nodeAt(query, path);
+    if (!rule || countWithout <= preflight.count) continue;
+    if (!narrowest || countWithout > narrowest.countWithout) narrowest = { rule, countWithout };
+  }
+  return narrowest;
+}
 
 export default function Cohorts() {
-  const [selectedCohort, setSelectedCohort] = useState<Cohort | null>(null);
-  const [rules, setRules] = useState<CohortRule[]>([]);
+  // Saved cohort loaded into the builder; saving it adds a version instead of a new cohort
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [query, setQuery] = useState<CohortGroup>(emptyGroup);
+  const [queryText, setQueryText] = useState("");
+  const [queryError, setQueryError] = useState<CohortQuerySyntaxError | null>(null);
   const [cohortName, setCohortName] = useState("");
-  const [savedCohorts] = useState<Cohort[]>([
-    {
-      id: "1",
-      name: "High RPM Operations",
-      rules: [
-        { field: "RPM", operator: ">", value: "180" },
-        { field: "BIT_TYPE", operator: "in", value: ["PDC", "Hybrid"] }
-      ],
-      size: 1247,
-      privacy: "safe"
-    },
-    {
-      id: "2", 
-      name: "Deep Well Drilling",
-      rules: [
-        { field: "DEPTH", operator: ">", value: "15000" },
-        { field: "FORMATION", operator: "in", value: ["Shale", "Granite"] }
-      ],
-      size: 89,
-      privacy: "suppressed"
-    }
-  ]);
+  const { projectId } = useProject();
+  const {
+    cohorts: savedCohorts,
+    overlayIds,
+    canOverlayMore,
+    sync,
+    syncCohorts,
+    saveCohort: storeCohort,
+    renameCohort,
+    duplicateCohort,
+    restoreCohort,
+    deleteCohort,
+    toggleOverlay,
+  } = useCohorts();
+  const { settings: privacy } = usePrivacySettings();
+  const schema = useDatasetSchema(projectId);
+  const fields = schema.data?.fields ?? NO_FIELDS;
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const editing = savedCohorts.find((cohort) => cohort.id === editingId);
+
+  useEffect(() => {
+    setEditingId(null);
+    setRenamingId(null);
+  }, [projectId]);
 
-  const addRule = () => {
-    setRules([...rules, { field: "", operator: "=", value: "" }]);
+  const loadCohort = (cohort: Cohort | null) => {
+    const loaded = cohort?.query ?? emptyGroup();
+    setEditingId(cohort?.id ?? null);
+    setCohortName(cohort?.name ?? "");
+    setQuery(loaded);
+    setQueryText(formatCohortQuery(loaded));
+    setQueryError(null);
   };
 
-  const updateRule = (index: number, updates: Partial<CohortRule>) => {
-    const updatedRules = [...rules];
-    updatedRules[index] = { ...updatedRules[index], ...updates };
-    setRules(updatedRules);
+  const saveCohort = () => {
+    const cohort = storeCohort({
+      id: editingId ?? crypto.randomUUID(),
+      name: cohortName,
+      query,
+      size: estimate?.count,
+      privacy: estimate ? (estimate.passes ? "safe" : "suppressed") : undefined,
+    });
+    setEditingId(cohort.id);
+    toast({
+      title: "Cohort Saved",
+      description: cohort.version > 1 ? `${cohort.name} saved as version ${cohort.version}` : `${cohort.name} saved`,
+    });
+    return cohort;
   };
 
-  const removeRule = (index: number) => {
-    setRules(rules.filter((_, i) => i !== index));
+  // Saves the cohort and sends it straight to the Dashboard overlay
+  const applyCohort = () => {
+    const cohort = saveCohort();
+    if (!overlayIds.includes(cohort.id) && canOverlayMore) toggleOverlay(cohort.id);
+    showOnDashboard();
   };
 
-  const getFieldConfig = (fieldName: string) => {
-    return FIELD_OPTIONS.find(f => f.value === fieldName);
+  const duplicate = (id: string) => {
+    const copy = duplicateCohort(id);
+    if (copy) loadCohort(copy);
   };
 
-  const renderRuleValue = (rule: CohortRule, index: number) => {
-    const fieldConfig = getFieldConfig(rule.field);
-    
-    if (!fieldConfig) return null;
-
-    if (fieldConfig.type === "select" && fieldConfig.options) {
-      return (
-        <Select
-          value={Array.isArray(rule.value) ? rule.value[0] : rule.value}
-          onValueChange={(value) => updateRule(index, { value })}
-        >
-          <SelectTrigger className="w-full">
-            <SelectValue placeholder="Select value" />
-          </SelectTrigger>
-          <SelectContent>
-            {fieldConfig.options.map((option) => (
-              <SelectItem key={option} value={option}>
-                {option}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-      );
-    }
+  const remove = (cohort: Cohort) => {
+    deleteCohort(cohort.id);
+    // Whatever is in the builder stays there as an unsaved cohort
+    if (cohort.id === editingId) setEditingId(null);
+    toast({ title: "Cohort Deleted", description: `${cohort.name} was removed from this project` });
+  };
+
+  const startRename = (cohort: Cohort) => {
+    setRenamingId(cohort.id);
+    setRenameValue(cohort.name);
+  };
 
-    if (fieldConfig.type === "range") {
-      return (
-        <Input
-          type="number"
-          placeholder="Enter value"
-          value={rule.value as string}
-          onChange={(e) => updateRule(index, { value: e.target.value })}
-        />
-      );
+  const finishRename = () => {
+    const name = renameValue.trim();
+    if (renamingId && name) {
+      renameCohort(renamingId, name);
+      if (renamingId === editingId) setCohortName(name);
     }
+    setRenamingId(null);
+  };
+
+  const showOnDashboard = () => {
+    // Keep the ?project= search so the Dashboard opens on the same project
+    navigate({ pathname: "/", search: location.search });
+  };
+
+  const ruleCount = queryRules(query).length;
+  const canSave = !!cohortName && ruleCount > 0 && isQueryComplete(query) && !queryError;
 
-    return (
-      <Input
-        placeholder="Enter value"
-        value={rule.value as string}
-        onChange={(e) => updateRule(index, { value: e.target.value })}
-      />
-    );
+  const checkedQuery = useDebouncedValue(query, PREFLIGHT_DEBOUNCE_MS);
+  const preflight = useCohortPreflight(projectId, checkedQuery, privacy.kAnonymity, {
+    enabled: queryRules(checkedQuery).length > 0 && isQueryComplete(checkedQuery),
+  });
+  // A result for an earlier version of the rules says nothing about the current ones, and
+  // placeholder data is always such a result
+  const complete = ruleCount > 0 && isQueryComplete(query);
+  const checking = complete && (checkedQuery !== query || preflight.isFetching);
+  const estimate = complete && !checking && !preflight.isPlaceholderData ? preflight.data : undefined;
+  const suppressed = estimate?.passes === false;
+  const narrowest = estimate ? narrowestRule(query, estimate) : null;
+
+  // The text tab starts from the builder's query each time it opens; leaving it keeps the last
+  // query that parsed, so a half-typed error does not follow into the builder
+  const changeEditor = (editor: string) => {
+    setQueryError(null);
+    if (editor === "text") setQueryText(formatCohortQuery(query));
+  };
+
+  const changeQuery = (next: CohortGroup) => {
+    setQuery(next);
+    setQueryError(null);
+  };
+
+  const changeQueryText = (text: string) => {
+    setQueryText(text);
+    try {
+      setQuery(parseCohortQuery(text));
+      setQueryError(null);
+    } catch (error) {
+      if (!(error instanceof CohortQuerySyntaxError)) throw error;
+      setQueryError(error);
+    }
   };
 
   return (
@@ -142,10 +239,19 @@ export default function Cohorts() {
         <div className="lg:col-span-2 space-y-6">
           <Card className="card-industrial">
             <CardHeader>
-              <CardTitle className="text-industrial flex items-center gap-2">
-                <Plus className="h-5 w-5" />
-                Build New Cohort
-              </CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-industrial flex items-center gap-2">
+                  {editing ? <Pencil className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+                  {editing ? "Edit Cohort" : "Build New Cohort"}
+                  {editing && <Badge variant="outline">v{editing.version}</Badge>}
+                </CardTitle>
+                {editingId && (
+                  <Button size="sm" variant="outline" onClick={() => loadCohort(null)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    New Cohort
+                  </Button>
+                )}
+              </div>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
@@ -160,107 +266,119 @@ export default function Cohorts() {
 
               <Separator />
 
-              <div className="space-y-4">
+              <Tabs defaultValue="builder" onValueChange={changeEditor} className="space-y-4">
                 <div className="flex items-center justify-between">
                   <Label className="text-base">Filter Rules</Label>
-                  <Button onClick={addRule} size="sm" variant="outline">
-                    <Plus className="h-4 w-4 mr-1" />
-                    Add Rule
-                  </Button>
+                  <TabsList>
+                    <TabsTrigger value="builder">Builder</TabsTrigger>
+                    <TabsTrigger value="text">Query</TabsTrigger>
+                  </TabsList>
                 </div>
 
-                {rules.map((rule, index) => (
-                  <div key={index} className="grid grid-cols-12 gap-2 items-end">
-                    <div className="col-span-4">
-                      <Label>Field</Label>
-                      <Select
-                        value={rule.field}
-                        onValueChange={(value) => updateRule(index, { field: value })}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select field" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {FIELD_OPTIONS.map((option) => (
-                            <SelectItem key={option.value} value={option.value}>
-                              {option.label}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
+                <TabsContent value="builder" className="space-y-4">
+                  {schema.error && schema.error.kind !== "aborted" && (
+                    <Alert>
+                      <AlertTitle>Dataset fields unavailable</AlertTitle>
+                      <AlertDescription>
+                        {describeDemError(schema.error).description} Rules can still be written in the Query tab.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <CohortQueryBuilder query={query} onChange={changeQuery} fields={fields} />
 
-                    <div className="col-span-2">
-                      <Label>Operator</Label>
-                      <Select
-                        value={rule.operator}
-                        onValueChange={(value) => updateRule(index, { operator: value })}
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="=">=</SelectItem>
-                          <SelectItem value="!=">≠</SelectItem>
-                          <SelectItem value=">">&gt;</SelectItem>
-                          <SelectItem value="<">&lt;</SelectItem>
-                          <SelectItem value=">=">&ge;</SelectItem>
-                          <SelectItem value="<=">&le;</SelectItem>
-                          <SelectItem value="in">in</SelectItem>
-                        </SelectContent>
-                      </Select>
+                  {ruleCount === 0 && (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <Users className="h-12 w-12 mx-auto mb-4 opacity-20" />
+                      <p>No rules defined. Click "Add Rule" to start building your cohort.</p>
                     </div>
+                  )}
+                </TabsContent>
 
-                    <div className="col-span-5">
-                      <Label>Value</Label>
-                      {renderRuleValue(rule, index)}
-                    </div>
-
-                    <div className="col-span-1">
-                      <Button
-                        onClick={() => removeRule(index)}
-                        size="sm"
-                        variant="ghost"
-                        className="h-10 w-10 p-0"
-                      >
-                        <X className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </div>
-                ))}
-
-                {rules.length === 0 && (
-                  <div className="text-center py-8 text-muted-foreground">
-                    <Users className="h-12 w-12 mx-auto mb-4 opacity-20" />
-                    <p>No rules defined. Click "Add Rule" to start building your cohort.</p>
-                  </div>
-                )}
-              </div>
+                <TabsContent value="text" className="space-y-2">
+                  <Textarea
+                    aria-label="Cohort query"
+                    className="font-mono text-sm"
+                    rows={4}
+                    placeholder="BIT_TYPE in (PDC, Hybrid) and (FORMATION = Shale or RPM > 180)"
+                    value={queryText}
+                    onChange={(e) => changeQueryText(e.target.value)}
+                  />
+                  {queryError ? (
+                    <p className="text-sm text-destructive">
+                      {queryError.message} at character {queryError.position + 1}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Combine rules with and, or, not and parentheses; quote values containing spaces.
+                    </p>
+                  )}
+                </TabsContent>
+              </Tabs>
 
               <Separator />
 
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
-                  <Badge variant="outline">
-                    Estimated size: ~1,200 runs
-                  </Badge>
-                  <Badge variant="outline" className="status-operational">
-                    <Shield className="h-3 w-3 mr-1" />
-                    Privacy safe
-                  </Badge>
+                  {ruleCount === 0 ? (
+                    <Badge variant="outline">Add rules to estimate size</Badge>
+                  ) : !complete ? (
+                    <Badge variant="outline">Complete the rules to estimate size</Badge>
+                  ) : checking ? (
+                    <Badge variant="outline">
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      Estimating size…
+                    </Badge>
+                  ) : estimate ? (
+                    <Badge variant="outline" title={estimate.noised ? "Federated count with privacy noise added" : undefined}>
+                      Estimated size: {estimate.noised && "~"}{formatRuns(estimate.count)} runs
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" title={preflight.error?.message}>
+                      Size unavailable
+                    </Badge>
+                  )}
+                  {estimate && (
+                    <Badge variant="outline" className={suppressed ? "status-warning" : "status-operational"}>
+                      <Shield className="h-3 w-3 mr-1" />
+                      {suppressed ? `Below k=${estimate.k}` : `Privacy safe (k≥${estimate.k})`}
+                    </Badge>
+                  )}
                 </div>
                 
                 <div className="flex gap-2">
-                  <Button variant="outline" disabled={!cohortName || rules.length === 0}>
+                  <Button variant="outline" disabled={!canSave} onClick={saveCohort}>
                     <Save className="h-4 w-4 mr-2" />
                     Save Cohort
                   </Button>
-                  <Button disabled={!cohortName || rules.length === 0}>
+                  <Button
+                    disabled={!canSave || checking || suppressed}
+                    title={suppressed ? "The DEM would suppress aggregates for this cohort" : undefined}
+                    onClick={applyCohort}
+                  >
                     <Play className="h-4 w-4 mr-2" />
                     Apply & Analyze
                   </Button>
                 </div>
               </div>
+
+              {estimate && (suppressed || narrowest) && (
+                <p className={cn("text-sm", suppressed ? "text-destructive" : "text-muted-foreground")}>
+                  {suppressed &&
+                    `Fewer than ${estimate.k} runs match, so the DEM would suppress this cohort. `}
+                  {narrowest && suppressed && (
+                    <>
+                      Loosen <code className="font-mono">{formatCohortQuery(narrowest.rule)}</code> first: without it
+                      ~{formatRuns(narrowest.countWithout)} runs match.
+                    </>
+                  )}
+                  {narrowest && !suppressed && (
+                    <>
+                      Narrowed most by <code className="font-mono">{formatCohortQuery(narrowest.rule)}</code> (
+                      {formatRuns(narrowest.countWithout)} → {formatRuns(estimate.count)} runs).
+                    </>
+                  )}
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -269,39 +387,133 @@ export default function Cohorts() {
         <div className="space-y-6">
           <Card className="card-industrial">
             <CardHeader>
-              <CardTitle className="text-industrial">Saved Cohorts</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-industrial">Saved Cohorts</CardTitle>
+                <Button size="sm" variant="outline" disabled={overlayIds.length === 0} onClick={showOnDashboard}>
+                  <LineChart className="h-4 w-4 mr-1" />
+                  Compare{overlayIds.length > 0 && ` (${overlayIds.length})`}
+                </Button>
+              </div>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span title={sync.error}>{SYNC_LABELS[sync.status]}</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  disabled={sync.status === "syncing"}
+                  title="Sync with DEM"
+                  onClick={() => void syncCohorts()}
+                >
+                  <RefreshCw className={cn("h-3 w-3", sync.status === "syncing" && "animate-spin")} />
+                </Button>
+              </div>
             </CardHeader>
             <CardContent className="space-y-3">
+              {savedCohorts.length === 0 && (
+                <p className="text-sm text-muted-foreground">No saved cohorts in this project yet.</p>
+              )}
               {savedCohorts.map((cohort) => (
                 <div
                   key={cohort.id}
-                  className="p-3 border rounded-lg hover:bg-muted/50 cursor-pointer transition-colors"
-                  onClick={() => setSelectedCohort(cohort)}
+                  className={cn(
+                    "p-3 border rounded-lg hover:bg-muted/50 cursor-pointer transition-colors",
+                    cohort.id === editingId && "border-primary"
+                  )}
+                  onClick={() => loadCohort(cohort)}
                 >
-                  <div className="flex items-center justify-between mb-2">
-                    <h4 className="font-medium text-sm">{cohort.name}</h4>
-                    <Badge 
-                      variant="outline" 
-                      className={cohort.privacy === "safe" ? "status-operational" : "status-warning"}
-                    >
-                      {cohort.privacy === "safe" ? "Safe" : "Suppressed"}
-                    </Badge>
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    {renamingId === cohort.id ? (
+                      <Input
+                        autoFocus
+                        aria-label="Cohort name"
+                        className="h-7 text-sm"
+                        value={renameValue}
+                        onClick={(event) => event.stopPropagation()}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={finishRename}
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter") finishRename();
+                          if (event.key === "Escape") setRenamingId(null);
+                        }}
+                      />
+                    ) : (
+                      <h4 className="font-medium text-sm">{cohort.name}</h4>
+                    )}
+                    <div className="flex items-center gap-1">
+                      {cohort.privacy && (
+                        <Badge 
+                          variant="outline" 
+                          className={cohort.privacy === "safe" ? "status-operational" : "status-warning"}
+                        >
+                          {cohort.privacy === "safe" ? "Safe" : "Suppressed"}
+                        </Badge>
+                      )}
+                      <Button
+                        size="sm"
+                        variant={overlayIds.includes(cohort.id) ? "secondary" : "ghost"}
+                        className="h-7 w-7 p-0"
+                        disabled={!overlayIds.includes(cohort.id) && !canOverlayMore}
+                        title={overlayIds.includes(cohort.id) ? "Remove from Dashboard overlay" : "Overlay on Dashboard"}
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          toggleOverlay(cohort.id);
+                        }}
+                      >
+                        <Layers className="h-4 w-4" />
+                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild onClick={(event) => event.stopPropagation()}>
+                          <Button size="sm" variant="ghost" className="h-7 w-7 p-0" aria-label="Cohort actions">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" onClick={(event) => event.stopPropagation()}>
+                          <DropdownMenuItem onSelect={() => loadCohort(cohort)}>
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => startRename(cohort)}>
+                            <TextCursorInput className="h-4 w-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => duplicate(cohort.id)}>
+                            <Copy className="h-4 w-4 mr-2" />
+                            Duplicate
+                          </DropdownMenuItem>
+                          {cohort.history && cohort.history.length > 0 && (
+                            <DropdownMenuSub>
+                              <DropdownMenuSubTrigger>
+                                <History className="h-4 w-4 mr-2" />
+                                Restore version
+                              </DropdownMenuSubTrigger>
+                              <DropdownMenuSubContent>
+                                {cohort.history.map((revision) => (
+                                  <DropdownMenuItem
+                                    key={revision.version}
+                                    onSelect={() => restoreCohort(cohort.id, revision.version)}
+                                  >
+                                    v{revision.version} · {revision.name} · {formatSavedAt(revision.updatedAt)}
+                                  </DropdownMenuItem>
+                                ))}
+                              </DropdownMenuSubContent>
+                            </DropdownMenuSub>
+                          )}
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem className="text-destructive" onSelect={() => remove(cohort)}>
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
                   </div>
                   <p className="text-xs text-muted-foreground mb-2">
-                    {cohort.rules.length} rules • {cohort.size} runs
+                    {queryRules(cohort.query).length} rules{cohort.size !== undefined && ` • ${cohort.size} runs`}
+                    {` • v${cohort.version}, ${formatSavedAt(cohort.updatedAt)}`}
+                  </p>
+                  <p className="text-xs font-mono text-muted-foreground line-clamp-2" title={formatCohortQuery(cohort.query)}>
+                    {formatCohortQuery(cohort.query)}
                   </p>
-                  <div className="flex flex-wrap gap-1">
-                    {cohort.rules.slice(0, 2).map((rule, index) => (
-                      <Badge key={index} variant="secondary" className="text-xs">
-                        {FIELD_OPTIONS.find(f => f.value === rule.field)?.label}
-                      </Badge>
-                    ))}
-                    {cohort.rules.length > 2 && (
-                      <Badge variant="secondary" className="text-xs">
-                        +{cohort.rules.length - 2}
-                      </Badge>
-                    )}
-                  </div>
                 </div>
               ))}
             </CardContent>
@@ -319,7 +531,7 @@ export default function Cohorts() {
               </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Privacy Level:</span>
-                <Badge className="status-operational">k≥10</Badge>
+                <Badge className="status-operational">k≥{privacy.kAnonymity}</Badge>
               </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Total Records:</span>
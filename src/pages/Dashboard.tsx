@@ -1,82 +1,205 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { RefreshCcw, Calendar, Filter, Eye } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { RefreshCcw, Calendar, Filter, Layers, ShieldAlert } from "lucide-react";
 import { KpiCards } from "@/components/KpiCards";
-import { SurvivalChart } from "@/components/SurvivalChart";
-import { demClient, type SurvivalData } from "@/lib/dem-client";
+import { SurvivalChart, type FittedCurve } from "@/components/SurvivalChart";
+import { BandwidthSelect } from "@/components/BandwidthSelect";
+import { SurvivalTestsTable } from "@/components/SurvivalTestsTable";
+import { type SurvivalData } from "@/lib/dem-client";
+import { describeDemError } from "@/lib/dem-errors";
+import { fitWeibull, weibullHazard, weibullSurvival, type WeibullFit } from "@/lib/survival-weibull";
+import { coxFeatures } from "@/lib/dataset-schema";
+import { coxBaselineModel, kaplanMeierModel, stepCurveModel, weibullModel, type MeanLife, type ModelEstimate, type SurvivalModelType } from "@/lib/survival-models";
+import { useCoxModel, useDatasetSchema, useSurvivalAggregate, useSurvivalAggregates } from "@/hooks/use-dem-query";
+import { useCohorts } from "@/hooks/use-cohorts";
+import { usePrivacySettings } from "@/hooks/use-privacy-settings";
+import { useProject } from "@/hooks/use-project";
 import { useToast } from "@/hooks/use-toast";
 
 interface DashboardData {
   kpis: {
-    medianLife: number;
-    p10Life: number;
-    p90Life: number;
-    mtbf: number;
+    medianLife: number | null;
+    p10Life: number | null;
+    p90Life: number | null;
+    mtbf: number | null;
+    mtbfMethod: string;
     censored: number;
     cohortSize: number;
   };
-  survivalData: SurvivalData;
+  survivalData: SurvivalData & Pick<ModelEstimate, "hazard">;
+  // The model behind the KPIs; falls back to Kaplan-Meier when the chosen one cannot be fitted
+  model: SurvivalModelType;
+  // Parametric fits drawn over the empirical curve
+  fittedCurves: FittedCurve[];
+}
+
+interface OverlaySeries {
+  name: string;
+  survivalData: DashboardData["survivalData"];
+  fittedCurves: FittedCurve[];
+}
+
+const AGGREGATE_METRICS = ["survival", "hazard", "percentiles", "counts", "risk_table"];
+const AGGREGATE_HORIZONS = [10, 50, 100, 150];
+
+const MODEL_LABELS: Record<SurvivalModelType, string> = {
+  km: "Kaplan-Meier",
+  weibull: "Weibull",
+  cox: "Cox Baseline"
+};
+
+const CHART_TITLES: Record<SurvivalModelType, string> = {
+  km: "Kaplan-Meier Survival Curve",
+  weibull: "Kaplan-Meier with Weibull Fit",
+  cox: "Cox Baseline Survival (mean covariates)"
+};
+
+function weibullCurve(name: string, fit: WeibullFit): FittedCurve {
+  return {
+    name: `${name} (k=${fit.shape.toFixed(2)}, λ=${fit.scale.toFixed(1)})`,
+    survival: (t) => weibullSurvival(fit, t),
+    hazard: (t) => weibullHazard(fit, t)
+  };
+}
+
+function describeMeanLife(meanLife: MeanLife): string {
+  if (meanLife.method === "weibull-mean") return "Weibull mean life λΓ(1 + 1/k)";
+  const se = meanLife.se ? ` ± ${meanLife.se.toFixed(1)}` : "";
+  return `RMST to ${Math.round(meanLife.horizon ?? 0)} h${se}`;
 }
 
 export default function Dashboard() {
-  const [data, setData] = useState<DashboardData | null>(null);
-  const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState("90d");
   const [bucket, setBucket] = useState("hours");
-  const [modelType, setModelType] = useState("km");
+  const [modelType, setModelType] = useState<SurvivalModelType>("km");
+  // Blank means integrate the curve to the end of follow-up
+  const [rmstHorizon, setRmstHorizon] = useState("");
+  // Undefined lets the hazard smoother pick its own bandwidth
+  const [bandwidth, setBandwidth] = useState<number>();
+  const [showAtRisk, setShowAtRisk] = useState(false);
   const { toast } = useToast();
 
-  const loadDashboardData = async () => {
-    setLoading(true);
-    try {
-      // Simulate project ID - in real app this would come from context/config
-      const projectId = "demo-project";
-      
-      const response = await demClient.aggregateData(
-        projectId,
-        { timeRange, bucket }, // cohort
-        ["survival", "hazard", "percentiles", "counts"],
-        [10, 50, 100, 150]
-      );
-
-      if (response.data) {
-        const survivalData = response.data;
-        setData({
-          kpis: {
-            medianLife: survivalData.percentiles.p50,
-            p10Life: survivalData.percentiles.p10,
-            p90Life: survivalData.percentiles.p90,
-            mtbf: survivalData.percentiles.p50 * 1.2, // Approximation
-            censored: survivalData.censored,
-            cohortSize: survivalData.n
-          },
-          survivalData
-        });
-      } else if (response.error) {
-        toast({
-          title: "Data Load Error",
-          description: response.error,
-          variant: "destructive"
-        });
-      }
-    } catch (error) {
-      console.error("Dashboard load error:", error);
-      toast({
-        title: "Connection Error",
-        description: "Failed to load dashboard data",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { projectId } = useProject();
+  const { settings: privacy } = usePrivacySettings();
+  const { cohorts: savedCohorts, overlays, overlayIds, canOverlayMore, toggleOverlay } = useCohorts();
+  const cohort = useMemo(() => ({ timeRange, bucket }), [timeRange, bucket]);
+  // Saved cohorts are drawn over the same time range and bucket as the current one
+  const overlayRequests = useMemo(
+    () => overlays.map((overlay) => ({ ...cohort, query: overlay.query })),
+    [overlays, cohort]
+  );
+  const aggregate = useSurvivalAggregate(projectId, cohort, AGGREGATE_METRICS, AGGREGATE_HORIZONS);
+  const overlayAggregates = useSurvivalAggregates(projectId, overlayRequests, AGGREGATE_METRICS, AGGREGATE_HORIZONS);
+  const schema = useDatasetSchema(projectId);
+  const modelFeatures = useMemo(() => coxFeatures(schema.data), [schema.data]);
+  const coxQuery = useCoxModel(projectId, cohort, modelFeatures, "efron", {
+    enabled: modelType === "cox" && modelFeatures.length > 0,
+  });
+  // Skeletons only on first load; cached data stays visible while it revalidates
+  const loading = aggregate.isLoading || (modelType === "cox" && (schema.isLoading || coxQuery.isLoading));
+  const failure = aggregate.error ?? (modelType === "cox" ? schema.error ?? coxQuery.error : null);
+
+  const weibull = useMemo(
+    () => (aggregate.data?.riskTable ? fitWeibull(aggregate.data.riskTable) : null),
+    [aggregate.data]
+  );
+
+  const data = useMemo<DashboardData | null>(() => {
+    const aggregateData = aggregate.data;
+    if (!aggregateData) return null;
+    const horizon = Number(rmstHorizon) > 0 ? Number(rmstHorizon) : undefined;
+    // Recompute the curve from the risk table so it carries Greenwood confidence bands
+    const km = aggregateData.riskTable
+      ? kaplanMeierModel(aggregateData.riskTable, { horizon, bandwidth })
+      : stepCurveModel(aggregateData.km, { horizon, bandwidth });
+    // Parametric and Cox curves are evaluated on the same time grid as the empirical one
+    const grid = km.km.t;
+    const estimate =
+      modelType === "weibull" && weibull ? weibullModel(weibull, grid)
+      : modelType === "cox" && coxQuery.data ? coxBaselineModel(coxQuery.data.params, grid, { horizon, bandwidth })
+      : km;
+    // A Weibull fit is drawn over the Kaplan-Meier estimate it was fitted to, not in place of it
+    const plotted = estimate.model === "weibull" ? km : estimate;
+    return {
+      kpis: {
+        medianLife: estimate.percentiles.p50,
+        p10Life: estimate.percentiles.p10,
+        p90Life: estimate.percentiles.p90,
+        mtbf: estimate.meanLife.value,
+        mtbfMethod: describeMeanLife(estimate.meanLife),
+        censored: aggregateData.censored,
+        cohortSize: aggregateData.n
+      },
+      survivalData: { ...aggregateData, km: plotted.km, hazard: plotted.hazard },
+      model: estimate.model,
+      fittedCurves: estimate.model === "weibull" && weibull ? [weibullCurve("Weibull", weibull)] : []
+    };
+  }, [aggregate.data, modelType, weibull, coxQuery.data, rmstHorizon, bandwidth]);
+  // Overlays get their own Weibull fit; a Cox baseline would need a model per cohort, so they stay Kaplan-Meier
+  const overlaySeries = useMemo<OverlaySeries[]>(
+    () =>
+      overlays.flatMap((overlay, index) => {
+        const overlayData = overlayAggregates.data[index];
+        if (!overlayData) return [];
+        const km = overlayData.riskTable
+          ? kaplanMeierModel(overlayData.riskTable, { bandwidth })
+          : stepCurveModel(overlayData.km, { bandwidth });
+        const fit = modelType === "weibull" && overlayData.riskTable ? fitWeibull(overlayData.riskTable) : null;
+        return [{
+          name: data?.model === "cox" ? `${overlay.name} (${MODEL_LABELS.km})` : overlay.name,
+          survivalData: { ...overlayData, km: km.km, hazard: km.hazard },
+          fittedCurves: fit ? [weibullCurve(`${overlay.name} Weibull`, fit)] : []
+        }];
+      }),
+    [overlays, overlayAggregates.data, modelType, bandwidth, data?.model]
+  );
+  const overlayFailures = overlays.flatMap((overlay, index) => {
+    const error = overlayAggregates.errors[index];
+    return error && error.kind !== "aborted" ? [`${overlay.name}: ${describeDemError(error).title}`] : [];
+  });
+  const chartSeries = data ? [data.survivalData, ...overlaySeries.map((series) => series.survivalData)] : undefined;
+  const chartNames = ["Current Cohort", ...overlaySeries.map((series) => series.name)];
+  const fittedCurves = useMemo(
+    () => (data ? [...data.fittedCurves, ...overlaySeries.flatMap((series) => series.fittedCurves)] : []),
+    [data, overlaySeries]
+  );
+  const comparedCohorts = useMemo(
+    () =>
+      data
+        ? [
+            { name: "Current Cohort", riskTable: data.survivalData.riskTable },
+            ...overlaySeries.map((series) => ({ name: series.name, riskTable: series.survivalData.riskTable }))
+          ]
+        : [],
+    [data, overlaySeries]
+  );
+  // Cox is fetched on demand, so only report a fallback once it has had its chance to load
+  const modelUnavailable = data && data.model !== modelType && !(modelType === "cox" && coxQuery.isFetching);
 
   useEffect(() => {
-    loadDashboardData();
-  }, [timeRange, bucket, modelType]);
+    // k-anonymity and peer failures are explained inline below
+    if (!failure || ["aborted", "k-anonymity", "peer-unavailable"].includes(failure.kind)) return;
+    toast({
+      ...describeDemError(failure),
+      variant: "destructive"
+    });
+  }, [failure, toast]);
 
   return (
     <div className="space-y-6">
@@ -113,7 +236,7 @@ export default function Dashboard() {
             </SelectContent>
           </Select>
 
-          <Select value={modelType} onValueChange={setModelType}>
+          <Select value={modelType} onValueChange={(value) => setModelType(value as SurvivalModelType)}>
             <SelectTrigger className="w-32">
               <Filter className="mr-2 h-4 w-4" />
               <SelectValue />
@@ -125,8 +248,59 @@ export default function Dashboard() {
             </SelectContent>
           </Select>
 
-          <Button onClick={loadDashboardData} disabled={loading} size="sm">
-            <RefreshCcw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          {modelType !== "weibull" && (
+            <Input
+              type="number"
+              min={0}
+              value={rmstHorizon}
+              onChange={(event) => setRmstHorizon(event.target.value)}
+              placeholder="RMST horizon (h)"
+              aria-label="RMST horizon in hours"
+              title="Restricted mean survival is integrated up to this time; blank uses the end of follow-up"
+              className="w-40"
+            />
+          )}
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Layers className="mr-2 h-4 w-4" />
+                Overlay{overlayIds.length > 0 && ` (${overlayIds.length})`}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-64">
+              <DropdownMenuLabel>Saved cohorts</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {savedCohorts.length === 0 && (
+                <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved cohorts in this project yet.</p>
+              )}
+              {savedCohorts.map((saved) => {
+                const checked = overlayIds.includes(saved.id);
+                return (
+                  <DropdownMenuCheckboxItem
+                    key={saved.id}
+                    checked={checked}
+                    disabled={!checked && !canOverlayMore}
+                    onCheckedChange={() => toggleOverlay(saved.id)}
+                    onSelect={(event) => event.preventDefault()}
+                  >
+                    {saved.name}
+                  </DropdownMenuCheckboxItem>
+                );
+              })}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button
+            onClick={() => {
+              aggregate.refetch();
+              overlayAggregates.refetch();
+              if (modelType === "cox") coxQuery.refetch();
+            }}
+            disabled={aggregate.isFetching || overlayAggregates.isFetching || coxQuery.isFetching}
+            size="sm"
+          >
+            <RefreshCcw className={`mr-2 h-4 w-4 ${aggregate.isFetching || overlayAggregates.isFetching || coxQuery.isFetching ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
         </div>
@@ -134,38 +308,98 @@ export default function Dashboard() {
 
       {/* Status badges */}
       <div className="flex items-center space-x-3">
-        <Badge variant="outline" className="status-operational">
-          <Eye className="mr-1 h-3 w-3" />
-          DEM Connected
-        </Badge>
+        <ConnectionStatus />
         <Badge variant="outline">
           {data ? data.kpis.cohortSize : 0} runs in cohort
         </Badge>
         <Badge variant="outline">
-          Privacy: k-anonymity ≥ 10
+          Privacy: k-anonymity ≥ {privacy.kAnonymity}
         </Badge>
       </div>
 
+      {failure?.kind === "k-anonymity" && (
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>Cohort suppressed for privacy</AlertTitle>
+          <AlertDescription>
+            {failure.groupSize !== undefined
+              ? `Only ${failure.groupSize} runs match this cohort, below the k-anonymity threshold of ${failure.threshold ?? "the federation"}.`
+              : "Too few runs match this cohort to release aggregates."}
+            {" "}Widen the time range or relax the cohort filters.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {failure?.kind === "peer-unavailable" && (
+        <Alert>
+          <AlertTitle>Partial federation</AlertTitle>
+          <AlertDescription>
+            {failure.peers.length > 0
+              ? `${failure.peers.join(", ")} did not respond. Refresh once they reconnect.`
+              : "A federation peer did not respond."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {overlayFailures.length > 0 && (
+        <Alert>
+          <AlertTitle>Some overlays could not be loaded</AlertTitle>
+          <AlertDescription>{overlayFailures.join(" · ")}</AlertDescription>
+        </Alert>
+      )}
+
+      {modelUnavailable && (
+        <Alert>
+          <AlertTitle>{MODEL_LABELS[modelType]} model unavailable</AlertTitle>
+          <AlertDescription>
+            {modelType === "weibull"
+              ? "This cohort has too few failures to fit a Weibull model."
+              : "No Cox model could be trained for this cohort."}
+            {" "}Showing the Kaplan-Meier estimate instead.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* KPI Cards */}
       <KpiCards data={data?.kpis} loading={loading} />
 
       {/* Main Charts */}
       <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2">
         <SurvivalChart
-          data={data ? [data.survivalData] : undefined}
+          data={chartSeries}
           loading={loading}
           type="survival"
-          cohortNames={["Current Cohort"]}
+          cohortNames={chartNames}
+          title={data ? CHART_TITLES[data.model] : undefined}
+          showConfidence={data?.model !== "cox"}
+          fittedCurves={fittedCurves}
+          showAtRisk={showAtRisk}
+          actions={
+            <div className="flex items-center gap-2">
+              <Switch id="show-at-risk" checked={showAtRisk} onCheckedChange={setShowAtRisk} />
+              <Label htmlFor="show-at-risk" className="text-sm font-normal whitespace-nowrap">At risk</Label>
+            </div>
+          }
         />
         
         <SurvivalChart
-          data={data ? [data.survivalData] : undefined}
+          data={chartSeries}
           loading={loading}
           type="hazard"
-          cohortNames={["Current Cohort"]}
+          cohortNames={chartNames}
+          fittedCurves={fittedCurves}
+          actions={data && (
+            <BandwidthSelect
+              value={bandwidth}
+              onChange={setBandwidth}
+              resolved={data.survivalData.hazard.bandwidth}
+            />
+          )}
         />
       </div>
 
+      <SurvivalTestsTable cohorts={comparedCohorts} />
+
       {/* Cohort Summary */}
       <Card className="card-industrial">
         <CardHeader>
@@ -186,7 +420,10 @@ export default function Dashboard() {
             </div>
             <div className="space-y-2">
               <p className="text-label">Model</p>
-              <p className="text-sm font-medium">{modelType.toUpperCase()}</p>
+              <p className="text-sm font-medium">
+                {data ? MODEL_LABELS[data.model] : MODEL_LABELS[modelType]}
+                {data?.model === "weibull" && weibull && ` (k=${weibull.shape.toFixed(2)}, λ=${weibull.scale.toFixed(1)})`}
+              </p>
             </div>
             <div className="space-y-2">
               <p className="text-label">Status</p>
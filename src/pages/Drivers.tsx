@@ -1,56 +1,90 @@
-import { useState, useEffect } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
 import { TrendingUp, TrendingDown, ArrowUpDown, RefreshCcw } from "lucide-react";
-import { demClient, type ComplementStats, type TDigestData } from "@/lib/dem-client";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useComplementStats, useConditionalTDigest, useCoxModel, useDatasetSchema, useSurvivalAggregate } from "@/hooks/use-dem-query";
+import { useProject } from "@/hooks/use-project";
 import { Skeleton } from "@/components/ui/skeleton";
+import { fitWeibull } from "@/lib/survival-weibull";
+import { covariateFields, coxFeatures } from "@/lib/dataset-schema";
+import type { TieMethod } from "@/lib/survival-cox";
+
+const DRIVER_COHORT = { timeRange: "90d" };
+const MODEL_METRICS = ["counts", "risk_table"];
+const MODEL_HORIZONS: number[] = [];
+// Skeleton rows while the dataset schema and Cox model load
+const COX_PLACEHOLDER_ROWS = 4;
+const SIGNIFICANCE = 0.05;
+
+const formatP = (p: number) => (p < 0.001 ? "<0.001" : p.toFixed(3));
+
+// Key Insights lists at most this many features per direction
+const MAX_INSIGHTS = 3;
+
+const concordanceClass = (c: number) =>
+  c >= 0.7 ? "status-operational" : c >= 0.6 ? "status-warning" : "status-failed";
 
 export default function Drivers() {
-  const [complementStats, setComplementStats] = useState<ComplementStats[]>([]);
-  const [tdigestData, setTDigestData] = useState<TDigestData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [selectedFeature, setSelectedFeature] = useState<string>("RPM");
+  const [pickedFeature, setPickedFeature] = useState<string>();
+  const [ties, setTies] = useState<TieMethod>("efron");
+  const { projectId } = useProject();
 
-  const loadDriversData = async () => {
-    setLoading(true);
-    try {
-      const projectId = "demo-project";
-      
-      // Load complement stats for feature influence
-      const statsResponse = await demClient.getComplementStats(
-        projectId,
-        { timeRange: "90d" },
-        "failed==1",
-        ["RPM", "WOB", "ROP", "TEMP", "BIT_TYPE", "FORMATION"]
-      );
+  // Drivers are the dataset's covariates; only the numeric ones can enter the Cox model
+  const schema = useDatasetSchema(projectId);
+  const covariates = useMemo(() => covariateFields(schema.data), [schema.data]);
+  const driverFeatures = useMemo(() => covariates.map((field) => field.name), [covariates]);
+  const modelFeatures = useMemo(() => coxFeatures(schema.data), [schema.data]);
+  const selectedFeature = pickedFeature ?? modelFeatures[0] ?? "";
+  const selectedField = covariates.find((field) => field.name === selectedFeature);
 
-      if (statsResponse.data) {
-        setComplementStats(statsResponse.data);
-      }
+  // Query cancellation aborts in-flight federated requests when the page is left
+  const statsQuery = useComplementStats(projectId, DRIVER_COHORT, "failed==1", driverFeatures, {
+    enabled: driverFeatures.length > 0,
+  });
+  const tdigestQuery = useConditionalTDigest(projectId, selectedFeature, "failed", 60, {
+    enabled: selectedFeature !== "",
+  });
+  const modelQuery = useSurvivalAggregate(projectId, DRIVER_COHORT, MODEL_METRICS, MODEL_HORIZONS);
+  const coxQuery = useCoxModel(projectId, DRIVER_COHORT, modelFeatures, ties, { enabled: modelFeatures.length > 0 });
+  const cox = coxQuery.data ?? null;
 
-      // Load T-Digest data for selected feature
-      const tdigestResponse = await demClient.getConditionalTDigest(
-        projectId,
-        selectedFeature,
-        "failed",
-        60
-      );
+  // Features whose 95% CI excludes 1, strongest effect first
+  const insights = useMemo(() => {
+    if (!cox) return null;
+    const significant = cox.params.coefficients
+      .filter((coefficient) => coefficient.lower > 1 || coefficient.upper < 1)
+      .sort((a, b) => Math.abs(Math.log(b.hazardRatio)) - Math.abs(Math.log(a.hazardRatio)));
+    return {
+      risks: significant.filter((coefficient) => coefficient.hazardRatio > 1).slice(0, MAX_INSIGHTS),
+      protective: significant.filter((coefficient) => coefficient.hazardRatio < 1).slice(0, MAX_INSIGHTS),
+      phViolations: cox.metrics.phTest.features.filter((result) => result.p < SIGNIFICANCE).map((result) => result.feature),
+    };
+  }, [cox]);
 
-      if (tdigestResponse.data) {
-        setTDigestData(tdigestResponse.data);
-      }
-    } catch (error) {
-      console.error("Drivers load error:", error);
-    } finally {
-      setLoading(false);
-    }
+  const describeEffect = (feature: string, hazardRatio: number, lower: number, upper: number) => {
+    const field = covariates.find((candidate) => candidate.name === feature);
+    const change = (hazardRatio - 1) * 100;
+    return `${field?.label ?? feature}: ${change > 0 ? "+" : ""}${change.toFixed(1)}% failure hazard per ${field?.unit ?? "unit"} (95% CI ${lower.toFixed(3)}–${upper.toFixed(3)})`;
   };
 
-  useEffect(() => {
-    loadDriversData();
-  }, [selectedFeature]);
+  const complementStats = statsQuery.data ?? [];
+  const tdigestData = tdigestQuery.data ?? null;
+  const fetching = statsQuery.isFetching || tdigestQuery.isFetching || modelQuery.isFetching || coxQuery.isFetching;
+  const weibull = useMemo(
+    () => (modelQuery.data?.riskTable ? fitWeibull(modelQuery.data.riskTable) : null),
+    [modelQuery.data]
+  );
+
+  const loadDriversData = () => {
+    statsQuery.refetch();
+    tdigestQuery.refetch();
+    modelQuery.refetch();
+    coxQuery.refetch();
+  };
 
   const getInfluenceDirection = (delta: number) => {
     if (Math.abs(delta) < 0.1) return "neutral";
@@ -90,8 +124,8 @@ export default function Drivers() {
           </p>
         </div>
         
-        <Button onClick={loadDriversData} disabled={loading} size="sm">
-          <RefreshCcw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        <Button onClick={loadDriversData} disabled={fetching} size="sm">
+          <RefreshCcw className={`mr-2 h-4 w-4 ${fetching ? 'animate-spin' : ''}`} />
           Refresh Analysis
         </Button>
       </div>
@@ -107,7 +141,7 @@ export default function Drivers() {
               </p>
             </CardHeader>
             <CardContent>
-              {loading ? (
+              {schema.isLoading || statsQuery.isLoading ? (
                 <div className="space-y-4">
                   {[1,2,3,4,5,6].map((i) => (
                     <div key={i} className="flex items-center justify-between">
@@ -118,7 +152,7 @@ export default function Drivers() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {complementStats
+                  {[...complementStats]
                     .sort((a, b) => Math.abs(b.delta_mean) - Math.abs(a.delta_mean))
                     .map((stat) => {
                       const Icon = getInfluenceIcon(stat.delta_mean);
@@ -128,7 +162,7 @@ export default function Drivers() {
                           className={`flex items-center justify-between p-3 rounded-lg border cursor-pointer hover:bg-muted/50 transition-colors ${
                             selectedFeature === stat.feature ? 'bg-muted border-primary' : ''
                           }`}
-                          onClick={() => setSelectedFeature(stat.feature)}
+                          onClick={() => setPickedFeature(stat.feature)}
                         >
                           <div className="flex items-center gap-2">
                             <Icon className={`h-4 w-4 ${getInfluenceColor(stat.delta_mean)}`} />
@@ -154,17 +188,55 @@ export default function Drivers() {
               </p>
             </CardHeader>
             <CardContent className="space-y-4">
+              {modelQuery.isLoading ? (
+                <div className="space-y-3">
+                  {[...Array(4)].map((_, i) => (
+                    <Skeleton key={i} className="h-5 w-full" />
+                  ))}
+                </div>
+              ) : weibull ? (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Shape (k)</span>
+                    <span className="font-mono text-sm">
+                      {weibull.shape.toFixed(2)} <span className="text-muted-foreground">± {weibull.shapeSE.toFixed(2)}</span>
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Scale (λ)</span>
+                    <span className="font-mono text-sm">
+                      {weibull.scale.toFixed(1)} <span className="text-muted-foreground">± {weibull.scaleSE.toFixed(1)}</span>
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Log-likelihood</span>
+                    <span className="font-mono text-sm">{weibull.logLikelihood.toFixed(1)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">AIC</span>
+                    <span className="font-mono text-sm">{weibull.aic.toFixed(1)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {weibull.events} failures, {weibull.n - weibull.events} censored
+                    {!weibull.converged && " · fit did not converge"}
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Not enough failures in this cohort to fit a Weibull model.
+                </p>
+              )}
               <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Shape (k)</span>
-                <span className="font-mono text-sm">2.34</span>
-              </div>
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Scale (λ)</span>
-                <span className="font-mono text-sm">89.7</span>
-              </div>
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">C-Index</span>
-                <Badge variant="outline" className="status-operational">0.742</Badge>
+                <span className="text-sm text-muted-foreground">C-Index (Cox)</span>
+                {schema.isLoading || coxQuery.isLoading ? (
+                  <Skeleton className="h-5 w-12" />
+                ) : cox ? (
+                  <Badge variant="outline" className={concordanceClass(cox.metrics.concordance)}>
+                    {cox.metrics.concordance.toFixed(3)}
+                  </Badge>
+                ) : (
+                  <span className="font-mono text-sm text-muted-foreground">—</span>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -182,7 +254,7 @@ export default function Drivers() {
               </p>
             </CardHeader>
             <CardContent>
-              {loading ? (
+              {schema.isLoading || tdigestQuery.isLoading ? (
                 <Skeleton className="skeleton-chart" />
               ) : (
                 <div className="chart-container-lg">
@@ -195,7 +267,7 @@ export default function Drivers() {
                         tickLine={false}
                         tick={{ fontSize: 12, fill: "hsl(var(--muted-foreground))" }}
                         label={{ 
-                          value: `${selectedFeature} ${selectedFeature === 'RPM' ? '(rpm)' : selectedFeature === 'TEMP' ? '(°C)' : selectedFeature === 'WOB' ? '(klbs)' : selectedFeature === 'ROP' ? '(ft/hr)' : ''}`, 
+                          value: selectedField?.unit ? `${selectedFeature} (${selectedField.unit})` : selectedFeature, 
                           position: "insideBottom", 
                           offset: -5,
                           style: { textAnchor: "middle", fill: "hsl(var(--muted-foreground))" }
@@ -256,48 +328,145 @@ export default function Drivers() {
             </CardContent>
           </Card>
 
+          {/* Cox Proportional Hazards */}
+          <Card className="card-industrial mt-6">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle className="text-industrial">Cox Proportional Hazards</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Hazard ratio per unit increase, with a Schoenfeld residual test of proportionality
+                </p>
+              </div>
+              <Select value={ties} onValueChange={(value) => setTies(value as TieMethod)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="efron">Efron ties</SelectItem>
+                  <SelectItem value="breslow">Breslow ties</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {schema.isLoading || coxQuery.isLoading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: modelFeatures.length || COX_PLACEHOLDER_ROWS }, (_, i) => (
+                    <Skeleton key={i} className="h-8 w-full" />
+                  ))}
+                </div>
+              ) : cox ? (
+                <div className="space-y-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Feature</TableHead>
+                        <TableHead className="text-right">Hazard Ratio</TableHead>
+                        <TableHead className="text-right">95% CI</TableHead>
+                        <TableHead className="text-right">p</TableHead>
+                        <TableHead className="text-right">PH Test</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {cox.params.coefficients.map((coefficient) => {
+                        const phTest = cox.metrics.phTest.features.find((result) => result.feature === coefficient.feature);
+                        const significant = coefficient.p < SIGNIFICANCE;
+                        return (
+                          <TableRow key={coefficient.feature}>
+                            <TableCell className="font-medium">{coefficient.feature}</TableCell>
+                            <TableCell className={`text-right font-mono ${significant ? (coefficient.hazardRatio > 1 ? "text-destructive" : "text-success") : ""}`}>
+                              {coefficient.hazardRatio.toFixed(3)}
+                            </TableCell>
+                            <TableCell className="text-right font-mono text-muted-foreground">
+                              {coefficient.lower.toFixed(3)} – {coefficient.upper.toFixed(3)}
+                            </TableCell>
+                            <TableCell className="text-right font-mono">{formatP(coefficient.p)}</TableCell>
+                            <TableCell className="text-right">
+                              {phTest && (
+                                <Badge
+                                  variant="outline"
+                                  className={phTest.p < SIGNIFICANCE ? "status-warning" : "status-operational"}
+                                  title={`χ² = ${phTest.chisq.toFixed(2)}, ρ = ${phTest.rho.toFixed(3)}`}
+                                >
+                                  {phTest.p < SIGNIFICANCE ? "Violated" : "Holds"} ({formatP(phTest.p)})
+                                </Badge>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+                    <span>{cox.metrics.n.toLocaleString()} runs, {cox.metrics.events.toLocaleString()} failures</span>
+                    <span>
+                      Global PH test: χ² = {cox.metrics.phTest.global.chisq.toFixed(2)} on {cox.metrics.phTest.global.df} df,
+                      p = {formatP(cox.metrics.phTest.global.p)}
+                    </span>
+                    <span>
+                      Likelihood ratio: {(2 * (cox.metrics.logLikelihood - cox.metrics.nullLogLikelihood)).toFixed(1)}
+                    </span>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {coxQuery.error?.message ?? "No Cox model available for this cohort."}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Key Insights */}
           <Card className="card-industrial mt-6">
             <CardHeader>
               <CardTitle className="text-industrial">Key Insights</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="grid gap-4 md:grid-cols-2">
-                <div className="space-y-3">
-                  <h4 className="font-medium text-industrial">Risk Factors</h4>
-                  <ul className="space-y-2 text-sm">
-                    <li className="flex items-center gap-2">
-                      <TrendingUp className="h-4 w-4 text-destructive" />
-                      <span>High RPM (&gt;180) increases failure risk by 15.3 units</span>
-                    </li>
-                    <li className="flex items-center gap-2">
-                      <TrendingUp className="h-4 w-4 text-destructive" />
-                      <span>Elevated WOB (&gt;25) correlates with early failures</span>
-                    </li>
-                    <li className="flex items-center gap-2">
-                      <TrendingUp className="h-4 w-4 text-destructive" />
-                      <span>High ROP may indicate aggressive drilling</span>
-                    </li>
-                  </ul>
-                </div>
-                <div className="space-y-3">
-                  <h4 className="font-medium text-industrial">Optimal Ranges</h4>
-                  <ul className="space-y-2 text-sm">
-                    <li className="flex items-center gap-2">
-                      <TrendingDown className="h-4 w-4 text-success" />
-                      <span>RPM: 140-180 rpm optimal range</span>
-                    </li>
-                    <li className="flex items-center gap-2">
-                      <TrendingDown className="h-4 w-4 text-success" />
-                      <span>WOB: 18-24 klbs recommended</span>
-                    </li>
-                    <li className="flex items-center gap-2">
-                      <TrendingDown className="h-4 w-4 text-success" />
-                      <span>Temperature: &lt;200°C for longevity</span>
-                    </li>
-                  </ul>
+              {schema.isLoading || coxQuery.isLoading ? (
+                <Skeleton className="h-24 w-full" />
+              ) : insights ? (
+                <div className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-3">
+                      <h4 className="font-medium text-industrial">Risk Factors</h4>
+                      {insights.risks.length > 0 ? (
+                        <ul className="space-y-2 text-sm">
+                          {insights.risks.map((coefficient) => (
+                            <li key={coefficient.feature} className="flex items-center gap-2">
+                              <TrendingUp className="h-4 w-4 text-destructive" />
+                              <span>{describeEffect(coefficient.feature, coefficient.hazardRatio, coefficient.lower, coefficient.upper)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No feature significantly raises the failure hazard.</p>
+                      )}
+                    </div>
+                    <div className="space-y-3">
+                      <h4 className="font-medium text-industrial">Protective Factors</h4>
+                      {insights.protective.length > 0 ? (
+                        <ul className="space-y-2 text-sm">
+                          {insights.protective.map((coefficient) => (
+                            <li key={coefficient.feature} className="flex items-center gap-2">
+                              <TrendingDown className="h-4 w-4 text-success" />
+                              <span>{describeEffect(coefficient.feature, coefficient.hazardRatio, coefficient.lower, coefficient.upper)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No feature significantly lowers the failure hazard.</p>
+                      )}
+                    </div>
+                  </div>
+                  {insights.phViolations.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Proportional hazards do not hold for {insights.phViolations.join(", ")}, so their effect changes
+                      over a run's life and the hazard ratios above are averages.
+                    </p>
+                  )}
                 </div>
-              </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Insights appear once a Cox model has been fitted.</p>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -7,56 +7,121 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { Settings as SettingsIcon, Database, Shield, Bell, Zap, TestTube } from "lucide-react";
+import { Settings as SettingsIcon, Database, Shield, Bell, Zap, TestTube, Download, Upload, Lock, Unlock, Save, Trash2 } from "lucide-react";
 import { demClient } from "@/lib/dem-client";
+import { healthMonitor } from "@/lib/dem-health";
+import { parseFixtureBundle } from "@/lib/dem-transport";
+import { describeDemError, type DemFailure } from "@/lib/dem-errors";
+import { K_ANONYMITY_OPTIONS } from "@/lib/privacy-settings";
+import { demQueries, demQueryKeys } from "@/hooks/use-dem-query";
+import { useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { usePrivacySettings } from "@/hooks/use-privacy-settings";
+import { useConnectionProfiles } from "@/hooks/use-connection-profiles";
+import { useProject } from "@/hooks/use-project";
+import type { ConnectionProfile } from "@/lib/connection-profiles";
+
+const NEW_PROFILE = "__new";
+
+const configFromProfile = (profile: ConnectionProfile | null, projectId: string) => ({
+  baseUrl: profile?.baseUrl ?? demClient.getConfig()?.baseUrl ?? "https://api.nextmatrix.demo",
+  region: profile?.region ?? demClient.getConfig()?.region ?? "us-west-2",
+  accessKey: profile?.accessKey ?? "",
+  // Never prefilled: stored secrets stay encrypted and are only used through the unlocked client
+  secretKey: "",
+  projectId: profile?.projectId ?? projectId,
+  transport: profile?.transport ?? demClient.getConfig()?.transport ?? "mock"
+});
 
 export default function Settings() {
-  const [demConfig, setDemConfig] = useState({
-    baseUrl: "https://api.nextmatrix.demo",
-    region: "us-west-2", 
-    accessKey: "",
-    secretKey: "",
-    projectId: "demo-project"
-  });
+  const { profiles, activeProfile, locked, switchProfile, saveProfile, deleteProfile } = useConnectionProfiles();
+  const { projectId, setProjectId } = useProject();
+  const { settings: privacy, updatePrivacySettings } = usePrivacySettings();
+  const [editingId, setEditingId] = useState<string | undefined>(activeProfile?.id);
+  const [profileName, setProfileName] = useState(activeProfile?.name ?? "");
+  const [passphrase, setPassphrase] = useState("");
+  const [demConfig, setDemConfig] = useState(() => configFromProfile(activeProfile, projectId));
+  const editingProfile = profiles.find(profile => profile.id === editingId) ?? null;
+  const hasSecret = demConfig.secretKey !== "" || (!!editingProfile?.encryptedSecret && editingId === activeProfile?.id && !locked);
   const [testing, setTesting] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<"connected" | "disconnected" | "testing">("disconnected");
+  const [recording, setRecording] = useState(demClient.isRecording());
+  const fixtureInput = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
   const { toast } = useToast();
 
+  const toggleRecording = (enabled: boolean) => {
+    if (enabled) {
+      demClient.startRecording();
+    } else {
+      const bundle = demClient.stopRecording();
+      if (bundle && bundle.entries.length > 0) {
+        const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+        const link = document.createElement("a");
+        link.href = URL.createObjectURL(blob);
+        link.download = `dem-fixtures-${new Date().toISOString().slice(0, 10)}.json`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+      }
+      toast({
+        title: "Recording Stopped",
+        description: `${bundle?.entries.length ?? 0} responses captured`,
+      });
+    }
+    setRecording(demClient.isRecording());
+  };
+
+  const loadFixtureFile = async (file: File) => {
+    try {
+      const bundle = parseFixtureBundle(await file.text());
+      demClient.loadFixtures(bundle);
+      demClient.updateConfig({ transport: "fixture" });
+      queryClient.invalidateQueries({ queryKey: demQueryKeys.all });
+      setDemConfig(prev => ({ ...prev, transport: "fixture" }));
+      toast({
+        title: "Fixtures Loaded",
+        description: `Replaying ${bundle.entries.length} recorded responses from ${file.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid Fixture Bundle",
+        description: error instanceof Error ? error.message : "Unable to read fixture file",
+        variant: "destructive"
+      });
+    }
+  };
+
   const testConnection = async () => {
     setTesting(true);
     setConnectionStatus("testing");
     
+    // Update client config; a blank secret field means "keep the unlocked stored secret"
+    const { secretKey, ...rest } = demConfig;
+    demClient.updateConfig(secretKey ? demConfig : rest);
+    // Cached data came from the previous configuration
+    queryClient.resetQueries({ queryKey: demQueryKeys.all });
+
     try {
-      // Update client config
-      demClient.updateConfig(demConfig);
-      
       // Test connection with a simple API call
-      const response = await demClient.getFederationPeers(demConfig.projectId);
-      
-      if (response.data || !response.error) {
-        setConnectionStatus("connected");
-        toast({
-          title: "Connection Successful",
-          description: "Successfully connected to NeXTMatrix DEM",
-        });
-      } else {
-        setConnectionStatus("disconnected");
-        toast({
-          title: "Connection Failed", 
-          description: response.error || "Unable to connect to DEM",
-          variant: "destructive"
-        });
-      }
+      await queryClient.fetchQuery(demQueries.peers(demConfig.projectId));
+
+      setConnectionStatus("connected");
+      setProjectId(demConfig.projectId);
+      toast({
+        title: "Connection Successful",
+        description: "Successfully connected to NeXTMatrix DEM",
+      });
     } catch (error) {
       setConnectionStatus("disconnected");
+      const failure = error as DemFailure;
       toast({
-        title: "Connection Error",
-        description: "Unable to test connection",
+        title: failure.kind === "auth" ? describeDemError(failure).title : "Connection Failed",
+        description: failure.message || "Unable to connect to DEM",
         variant: "destructive"
       });
     } finally {
       setTesting(false);
+      void healthMonitor.refresh();
     }
   };
 
@@ -64,6 +129,64 @@ export default function Settings() {
     setDemConfig(prev => ({ ...prev, [key]: value }));
   };
 
+  const selectProfile = async (id: string) => {
+    if (id === NEW_PROFILE) {
+      setEditingId(undefined);
+      setProfileName("");
+      setDemConfig(configFromProfile(null, projectId));
+      return;
+    }
+
+    const profile = profiles.find(candidate => candidate.id === id) ?? null;
+    setEditingId(id);
+    setProfileName(profile?.name ?? "");
+    setDemConfig(configFromProfile(profile, projectId));
+    await activateProfile(id);
+    if (profile?.projectId) setProjectId(profile.projectId);
+  };
+
+  const activateProfile = async (id: string) => {
+    try {
+      await switchProfile(id, passphrase || undefined);
+      setConnectionStatus("disconnected");
+    } catch (error) {
+      toast({
+        title: "Unlock Failed",
+        description: error instanceof Error ? error.message : "Unable to unlock profile",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const persistProfile = async () => {
+    try {
+      const { secretKey, ...settings } = demConfig;
+      const saved = await saveProfile({ ...settings, id: editingId, name: profileName.trim() }, secretKey, passphrase);
+      setEditingId(saved.id);
+      setDemConfig(prev => ({ ...prev, secretKey: "" }));
+      toast({
+        title: "Profile Saved",
+        description: saved.encryptedSecret
+          ? `${saved.name} stored with an encrypted secret key`
+          : `${saved.name} stored without a secret key`,
+      });
+    } catch (error) {
+      toast({
+        title: "Profile Not Saved",
+        description: error instanceof Error ? error.message : "Unable to save profile",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeProfile = () => {
+    if (!editingId) return;
+    deleteProfile(editingId);
+    setEditingId(undefined);
+    setProfileName("");
+    setDemConfig(configFromProfile(null, projectId));
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -99,6 +222,73 @@ export default function Settings() {
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="profile">Connection Profile</Label>
+                  <div className="flex items-center gap-2">
+                    <Select value={editingId ?? NEW_PROFILE} onValueChange={selectProfile}>
+                      <SelectTrigger id="profile">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {profiles.map((profile) => (
+                          <SelectItem key={profile.id} value={profile.id}>
+                            {profile.name}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value={NEW_PROFILE}>New profile…</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {editingId && editingId === activeProfile?.id && activeProfile.encryptedSecret && (
+                      <Badge variant="outline" className={locked ? "status-warning" : "status-operational"}>
+                        {locked ? <Lock className="h-3 w-3 mr-1" /> : <Unlock className="h-3 w-3 mr-1" />}
+                        {locked ? "Locked" : "Unlocked"}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-name">Profile Name</Label>
+                  <Input
+                    id="profile-name"
+                    placeholder="e.g. Production gateway"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="passphrase">Passphrase</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="passphrase"
+                    type="password"
+                    placeholder="Encrypts the secret key at rest"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                  />
+                  {editingId && locked && editingId === activeProfile?.id && (
+                    <Button variant="outline" size="sm" disabled={!passphrase} onClick={() => activateProfile(editingId)}>
+                      <Unlock className="w-4 h-4 mr-2" />
+                      Unlock
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" disabled={!profileName.trim()} onClick={persistProfile}>
+                    <Save className="w-4 h-4 mr-2" />
+                    Save Profile
+                  </Button>
+                  {editingId && (
+                    <Button variant="ghost" size="sm" onClick={removeProfile}>
+                      <Trash2 className="w-4 h-4" />
+                      <span className="sr-only">Delete profile</span>
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <Separator />
+
               <div className="grid gap-4 md:grid-cols-2">
                 <div className="space-y-2">
                   <Label htmlFor="base-url">Base URL</Label>
@@ -125,14 +315,29 @@ export default function Settings() {
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="project-id">Project ID</Label>
-                <Input
-                  id="project-id"
-                  placeholder="your-project-id"
-                  value={demConfig.projectId}
-                  onChange={(e) => updateConfig('projectId', e.target.value)}
-                />
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="project-id">Default Project</Label>
+                  <Input
+                    id="project-id"
+                    placeholder="your-project-id"
+                    value={demConfig.projectId}
+                    onChange={(e) => updateConfig('projectId', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transport">Transport</Label>
+                  <Select value={demConfig.transport} onValueChange={(value) => updateConfig('transport', value)}>
+                    <SelectTrigger id="transport">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="http">Live (HTTP)</SelectItem>
+                      <SelectItem value="mock">Demo data</SelectItem>
+                      <SelectItem value="fixture">Recorded fixtures</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
               <div className="grid gap-4 md:grid-cols-2">
@@ -151,7 +356,7 @@ export default function Settings() {
                   <Input
                     id="secret-key"
                     type="password" 
-                    placeholder="••••••••"
+                    placeholder={editingProfile?.encryptedSecret ? "Stored (encrypted)" : "••••••••"}
                     value={demConfig.secretKey}
                     onChange={(e) => updateConfig('secretKey', e.target.value)}
                   />
@@ -160,6 +365,45 @@ export default function Settings() {
 
               <Separator />
 
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Record Responses</p>
+                  <p className="text-xs text-muted-foreground">
+                    Capture DEM responses and download them as a fixture bundle when stopped
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={recording} onCheckedChange={toggleRecording} />
+                  {recording && <Download className="w-4 h-4 text-muted-foreground" />}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Replay Fixtures</p>
+                  <p className="text-xs text-muted-foreground">
+                    Load a recorded bundle and serve requests from it offline
+                  </p>
+                </div>
+                <input
+                  ref={fixtureInput}
+                  type="file"
+                  accept="application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadFixtureFile(file);
+                    e.target.value = "";
+                  }}
+                />
+                <Button variant="outline" size="sm" onClick={() => fixtureInput.current?.click()}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Load Bundle
+                </Button>
+              </div>
+
+              <Separator />
+
               <div className="flex items-center justify-between">
                 <div className="space-y-1">
                   <p className="text-sm font-medium">Connection Status</p>
@@ -169,7 +413,7 @@ export default function Settings() {
                 </div>
                 <Button 
                   onClick={testConnection}
-                  disabled={testing || !demConfig.accessKey || !demConfig.secretKey}
+                  disabled={testing || !demConfig.accessKey || !hasSecret}
                   size="sm"
                 >
                   <TestTube className="w-4 h-4 mr-2" />
@@ -195,15 +439,17 @@ export default function Settings() {
                     Minimum group size for data privacy (recommended: ≥10)
                   </p>
                 </div>
-                <Select defaultValue="10">
+                <Select
+                  value={String(privacy.kAnonymity)}
+                  onValueChange={(value) => updatePrivacySettings({ kAnonymity: Number(value) })}
+                >
                   <SelectTrigger className="w-20">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="5">5</SelectItem>
-                    <SelectItem value="10">10</SelectItem>
-                    <SelectItem value="20">20</SelectItem>
-                    <SelectItem value="50">50</SelectItem>
+                    {K_ANONYMITY_OPTIONS.map((k) => (
+                      <SelectItem key={k} value={String(k)}>{k}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -1,155 +1,127 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
 import { SurvivalChart } from "@/components/SurvivalChart";
+import { BandwidthSelect } from "@/components/BandwidthSelect";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
 import { Calculator, RotateCcw, TrendingUp, TrendingDown } from "lucide-react";
-import { demClient, type PredictionData, type SurvivalData } from "@/lib/dem-client";
+import { describeDemError } from "@/lib/dem-errors";
+import { covariateFields, defaultFieldValue, fieldStep, formatFieldValue, type FieldValue } from "@/lib/dataset-schema";
+import { curveDifference, valueAt } from "@/lib/survival-curves";
+import { cumulativeHazardFromSurvival, nelsonAalen, smoothedHazard } from "@/lib/survival-hazard";
+import { useDatasetSchema, useSurvivalAggregate, usePrediction } from "@/hooks/use-dem-query";
+import { useProject } from "@/hooks/use-project";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import { useToast } from "@/hooks/use-toast";
 
-interface Scenario {
-  name: string;
-  parameters: {
-    RPM: number;
-    WOB: number;
-    ROP: number;
-    TEMP: number;
-    BIT_TYPE: string;
-    BIT_SIZE: string;
-    FORMATION: string;
-  };
-}
+type ScenarioParameters = Record<string, FieldValue>;
 
-const defaultScenario: Scenario = {
-  name: "Baseline",
-  parameters: {
-    RPM: 160,
-    WOB: 22,
-    ROP: 40,
-    TEMP: 180,
-    BIT_TYPE: "PDC",
-    BIT_SIZE: "8.5",
-    FORMATION: "Shale"
-  }
-};
+const HORIZONS = [10, 50, 100, 150];
+const BASELINE_COHORT = { timeRange: "90d" };
+const BASELINE_METRICS = ["survival", "risk_table"];
 
 export default function WhatIf() {
-  const [currentScenario, setCurrentScenario] = useState<Scenario>(defaultScenario);
-  const [baselineData, setBaselineData] = useState<SurvivalData | null>(null);
-  const [predictionData, setPredictionData] = useState<PredictionData | null>(null);
-  const [loading, setLoading] = useState(false);
+  // Only the parameters the user has moved; the rest follow the schema's defaults
+  const [overrides, setOverrides] = useState<ScenarioParameters>({});
+  const [bandwidth, setBandwidth] = useState<number>();
   const { toast } = useToast();
+  const { projectId } = useProject();
 
-  const loadBaseline = async () => {
-    try {
-      const projectId = "demo-project";
-      const response = await demClient.aggregateData(
-        projectId,
-        { timeRange: "90d" },
-        ["survival", "hazard"],
-        [10, 50, 100, 150]
-      );
-      
-      if (response.data) {
-        setBaselineData(response.data);
-      }
-    } catch (error) {
-      console.error("Baseline load error:", error);
-    }
-  };
+  // In a real implementation, this would use a trained model ID
+  const mockModelId = "weibull-model-001";
 
-  const runPrediction = async () => {
-    setLoading(true);
-    try {
-      const projectId = "demo-project";
-      
-      // In a real implementation, this would use a trained model ID
-      const mockModelId = "weibull-model-001";
-      
-      const response = await demClient.predictSurvival(
-        projectId,
-        mockModelId,
-        currentScenario.parameters,
-        [10, 50, 100, 150]
-      );
+  // One control per covariate the DEM publishes for the project
+  const schema = useDatasetSchema(projectId);
+  const parameterFields = useMemo(() => covariateFields(schema.data), [schema.data]);
+  const parameters = useMemo(() => {
+    const values: ScenarioParameters = {};
+    parameterFields.forEach((field) => {
+      const value = overrides[field.name] ?? defaultFieldValue(field);
+      if (value !== undefined) values[field.name] = value;
+    });
+    return values;
+  }, [parameterFields, overrides]);
 
-      if (response.data) {
-        setPredictionData(response.data);
-        toast({
-          title: "Prediction Updated",
-          description: "Survival curve updated for new parameters",
-        });
-      } else if (response.error) {
-        toast({
-          title: "Prediction Error",
-          description: response.error,
-          variant: "destructive"
-        });
-      }
-    } catch (error) {
-      console.error("Prediction error:", error);
-      toast({
-        title: "Prediction Failed",
-        description: "Unable to generate prediction",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const debouncedParameters = useDebouncedValue(parameters, 500);
+  const baseline = useSurvivalAggregate(projectId, BASELINE_COHORT, BASELINE_METRICS, HORIZONS);
+  const prediction = usePrediction(projectId, mockModelId, debouncedParameters, HORIZONS, {
+    enabled: Object.keys(debouncedParameters).length > 0
+  });
 
-  useEffect(() => {
-    loadBaseline();
-  }, []);
+  const baselineData = baseline.data ?? null;
+  const predictionData = prediction.data ?? null;
+  const loading = prediction.isFetching;
 
   useEffect(() => {
-    // Debounced prediction update
-    const timer = setTimeout(() => {
-      runPrediction();
-    }, 500);
-    
-    return () => clearTimeout(timer);
-  }, [currentScenario.parameters]);
+    const failure = prediction.error;
+    if (!failure || failure.kind === "aborted") return;
+    const { title, description } = describeDemError(failure);
+    toast({
+      title: failure.kind === "request" ? "Prediction Error" : title,
+      description,
+      variant: "destructive"
+    });
+  }, [prediction.error, toast]);
 
-  const updateParameter = (param: string, value: any) => {
-    setCurrentScenario(prev => ({
-      ...prev,
-      parameters: { ...prev.parameters, [param]: value }
-    }));
+  const updateParameter = (param: string, value: FieldValue) => {
+    setOverrides(prev => ({ ...prev, [param]: value }));
   };
 
   const resetToDefaults = () => {
-    setCurrentScenario(defaultScenario);
+    setOverrides({});
   };
 
   // Calculate survival at horizons and differences
-  const horizonData = [
-    { horizon: "10h", baseline: baselineData?.percentiles.p10 ? 0.98 : 0, predicted: predictionData?.atHorizons["10"] || 0 },
-    { horizon: "50h", baseline: baselineData?.percentiles.p50 ? 0.88 : 0, predicted: predictionData?.atHorizons["50"] || 0 },
-    { horizon: "100h", baseline: baselineData?.percentiles.p90 ? 0.73 : 0, predicted: predictionData?.atHorizons["100"] || 0 },
-    { horizon: "150h", baseline: 0.62, predicted: predictionData?.atHorizons["150"] || 0 }
-  ].map(item => ({
-    ...item,
-    delta: item.predicted - item.baseline,
-    deltaPercent: ((item.predicted - item.baseline) / item.baseline * 100)
-  }));
+  const baselineCurve = baselineData ? { t: baselineData.km.t, values: baselineData.km.s } : null;
+  const predictedCurve = predictionData ? { t: predictionData.t, values: predictionData.s, smooth: true } : null;
+  const horizonData = HORIZONS.map((horizon) => {
+    const baselineSurvival = baselineCurve ? valueAt(baselineCurve, horizon) : null;
+    const predictedSurvival =
+      predictionData?.atHorizons[String(horizon)] ?? (predictedCurve ? valueAt(predictedCurve, horizon) : null);
+    const delta = baselineSurvival !== null && predictedSurvival !== null ? predictedSurvival - baselineSurvival : null;
+    return {
+      horizon: `${horizon}h`,
+      baseline: baselineSurvival,
+      predicted: predictedSurvival,
+      delta,
+      deltaPercent: delta !== null && baselineSurvival ? (delta / baselineSurvival) * 100 : null
+    };
+  });
+  const differenceData = baselineCurve && predictedCurve
+    ? (() => {
+        const difference = curveDifference(baselineCurve, predictedCurve);
+        return difference.t.map((time, index) => ({ time, delta: difference.delta[index] * 100 }));
+      })()
+    : [];
 
-  // Prepare chart data
+  // Prepare chart data; both hazards share the baseline's grid and bandwidth so they compare like for like
+  const baselineHazard = baselineData
+    ? smoothedHazard(
+        baselineData.riskTable ? nelsonAalen(baselineData.riskTable) : cumulativeHazardFromSurvival(baselineData.km),
+        { bandwidth, grid: baselineData.km.t }
+      )
+    : null;
   const survivalChartData = [];
   if (baselineData) {
     survivalChartData.push({
       km: baselineData.km,
-      hazard: baselineData.hazard
+      hazard: baselineHazard,
+      riskTable: baselineData.riskTable
     });
   }
   if (predictionData) {
     survivalChartData.push({
-      km: { t: predictionData.t, s: predictionData.s },
-      hazard: { t: [], h: [] } // Mock hazard for predicted
+      // A model prediction, so drawn as a continuous curve rather than a step function
+      km: { t: predictionData.t, s: predictionData.s, smooth: true },
+      hazard: smoothedHazard(cumulativeHazardFromSurvival(predictionData), {
+        bandwidth: baselineHazard?.bandwidth ?? bandwidth,
+        grid: baselineData?.km.t
+      })
     });
   }
 
@@ -186,111 +158,58 @@ export default function WhatIf() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
-              {/* RPM */}
-              <div className="space-y-3">
-                <Label>RPM: {currentScenario.parameters.RPM} rpm</Label>
-                <Slider
-                  value={[currentScenario.parameters.RPM]}
-                  onValueChange={([value]) => updateParameter('RPM', value)}
-                  min={80}
-                  max={250}
-                  step={5}
-                  className="w-full"
-                />
-                <div className="flex justify-between text-xs text-muted-foreground">
-                  <span>80</span>
-                  <span>250</span>
-                </div>
-              </div>
-
-              {/* WOB */}
-              <div className="space-y-3">
-                <Label>WOB: {currentScenario.parameters.WOB} klbs</Label>
-                <Slider
-                  value={[currentScenario.parameters.WOB]}
-                  onValueChange={([value]) => updateParameter('WOB', value)}
-                  min={10}
-                  max={40}
-                  step={1}
-                  className="w-full"
-                />
-                <div className="flex justify-between text-xs text-muted-foreground">
-                  <span>10</span>
-                  <span>40</span>
-                </div>
-              </div>
-
-              {/* ROP */}
-              <div className="space-y-3">
-                <Label>ROP: {currentScenario.parameters.ROP} ft/hr</Label>
-                <Slider
-                  value={[currentScenario.parameters.ROP]}
-                  onValueChange={([value]) => updateParameter('ROP', value)}
-                  min={15}
-                  max={80}
-                  step={5}
-                  className="w-full"
-                />
-                <div className="flex justify-between text-xs text-muted-foreground">
-                  <span>15</span>
-                  <span>80</span>
-                </div>
-              </div>
-
-              {/* Temperature */}
-              <div className="space-y-3">
-                <Label>Temperature: {currentScenario.parameters.TEMP}°C</Label>
-                <Slider
-                  value={[currentScenario.parameters.TEMP]}
-                  onValueChange={([value]) => updateParameter('TEMP', value)}
-                  min={120}
-                  max={300}
-                  step={10}
-                  className="w-full"
-                />
-                <div className="flex justify-between text-xs text-muted-foreground">
-                  <span>120</span>
-                  <span>300</span>
-                </div>
-              </div>
-
-              {/* Bit Type */}
-              <div className="space-y-2">
-                <Label>Bit Type</Label>
-                <Select 
-                  value={currentScenario.parameters.BIT_TYPE}
-                  onValueChange={(value) => updateParameter('BIT_TYPE', value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="PDC">PDC</SelectItem>
-                    <SelectItem value="Roller">Roller</SelectItem>
-                    <SelectItem value="Diamond">Diamond</SelectItem>
-                    <SelectItem value="Hybrid">Hybrid</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {/* Formation */}
-              <div className="space-y-2">
-                <Label>Formation</Label>
-                <Select 
-                  value={currentScenario.parameters.FORMATION}
-                  onValueChange={(value) => updateParameter('FORMATION', value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Sandstone">Sandstone</SelectItem>
-                    <SelectItem value="Shale">Shale</SelectItem>
-                    <SelectItem value="Limestone">Limestone</SelectItem>
-                    <SelectItem value="Granite">Granite</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              {schema.isLoading ? (
+                Array.from({ length: 4 }, (_, i) => <Skeleton key={i} className="h-10 w-full" />)
+              ) : schema.error ? (
+                <p className="text-sm text-muted-foreground">{describeDemError(schema.error).description}</p>
+              ) : parameterFields.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This project's dataset has no model covariates.</p>
+              ) : (
+                parameterFields.map((field) => {
+                  const value = parameters[field.name];
+                  if (field.type === "numeric" && field.range && value !== undefined) {
+                    return (
+                      <div key={field.name} className="space-y-3">
+                        <Label>{field.label}: {formatFieldValue(field, value)}</Label>
+                        <Slider
+                          value={[Number(value)]}
+                          onValueChange={([next]) => updateParameter(field.name, next)}
+                          min={field.range.min}
+                          max={field.range.max}
+                          step={fieldStep(field)}
+                          className="w-full"
+                        />
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                          <span>{field.range.min}</span>
+                          <span>{field.range.max}</span>
+                        </div>
+                      </div>
+                    );
+                  }
+                  if (field.type === "categorical" && field.domain?.length) {
+                    return (
+                      <div key={field.name} className="space-y-2">
+                        <Label>{field.label}</Label>
+                        <Select
+                          value={String(value)}
+                          onValueChange={(next) => updateParameter(field.name, next)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {field.domain.map((option) => (
+                              <SelectItem key={option} value={option}>{option}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    );
+                  }
+                  // Without a range or categories there is nothing to offer a control over
+                  return null;
+                })
+              )}
             </CardContent>
           </Card>
         </div>
@@ -305,6 +224,20 @@ export default function WhatIf() {
             cohortNames={["Baseline", "Predicted"]}
           />
 
+          <SurvivalChart
+            data={survivalChartData}
+            loading={loading}
+            type="hazard"
+            cohortNames={["Baseline", "Predicted"]}
+            actions={
+              <BandwidthSelect
+                value={bandwidth}
+                onChange={setBandwidth}
+                resolved={survivalChartData[0]?.hazard.bandwidth}
+              />
+            }
+          />
+
           {/* Horizon Predictions */}
           <Card className="card-industrial">
             <CardHeader>
@@ -319,7 +252,7 @@ export default function WhatIf() {
                   <div key={item.horizon} className="card-metric">
                     <div className="flex items-center justify-between mb-2">
                       <span className="text-label">{item.horizon}</span>
-                      {item.delta !== 0 && (
+                      {item.delta !== null && item.delta !== 0 && item.deltaPercent !== null && (
                         <Badge variant="outline" className={item.delta > 0 ? "text-success" : "text-destructive"}>
                           {item.delta > 0 ? <TrendingUp className="h-3 w-3 mr-1" /> : <TrendingDown className="h-3 w-3 mr-1" />}
                           {item.delta > 0 ? '+' : ''}{item.deltaPercent.toFixed(1)}%
@@ -329,11 +262,11 @@ export default function WhatIf() {
                     <div className="space-y-1">
                       <div className="flex items-center justify-between text-sm">
                         <span className="text-muted-foreground">Baseline:</span>
-                        <span className="font-medium">{(item.baseline * 100).toFixed(1)}%</span>
+                        <span className="font-medium">{item.baseline === null ? "—" : `${(item.baseline * 100).toFixed(1)}%`}</span>
                       </div>
                       <div className="flex items-center justify-between text-sm">
                         <span className="text-muted-foreground">Predicted:</span>
-                        <span className="font-medium">{(item.predicted * 100).toFixed(1)}%</span>
+                        <span className="font-medium">{item.predicted === null ? "—" : `${(item.predicted * 100).toFixed(1)}%`}</span>
                       </div>
                     </div>
                   </div>
@@ -342,6 +275,57 @@ export default function WhatIf() {
             </CardContent>
           </Card>
 
+          {/* Survival difference over time */}
+          <Card className="card-industrial">
+            <CardHeader>
+              <CardTitle className="text-industrial">Survival Difference</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Predicted minus baseline survival, in percentage points
+              </p>
+            </CardHeader>
+            <CardContent>
+              {differenceData.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Waiting for both the baseline and the prediction.
+                </p>
+              ) : (
+                <div className="chart-container">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={differenceData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" />
+                      <XAxis
+                        dataKey="time"
+                        type="number"
+                        domain={[0, "dataMax"]}
+                        axisLine={false}
+                        tickLine={false}
+                        tick={{ fontSize: 12, fill: "hsl(var(--muted-foreground))" }}
+                      />
+                      <YAxis
+                        axisLine={false}
+                        tickLine={false}
+                        tick={{ fontSize: 12, fill: "hsl(var(--muted-foreground))" }}
+                        tickFormatter={(value: number) => `${value.toFixed(0)} pp`}
+                      />
+                      <Tooltip
+                        formatter={(value: number) => [`${value > 0 ? "+" : ""}${value.toFixed(1)} pp`, "Difference"]}
+                        labelFormatter={(label: number) => `${label} hours`}
+                      />
+                      <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                      <Line
+                        type="stepAfter"
+                        dataKey="delta"
+                        stroke="hsl(var(--chart-primary))"
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Scenario Summary */}
           <Card className="card-industrial">
             <CardHeader>
@@ -349,17 +333,10 @@ export default function WhatIf() {
             </CardHeader>
             <CardContent>
               <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-4">
-                {Object.entries(currentScenario.parameters).map(([key, value]) => (
-                  <div key={key} className="space-y-1">
-                    <p className="text-label">{key.replace('_', ' ')}</p>
-                    <p className="font-medium">
-                      {value}
-                      {key === 'RPM' && ' rpm'}
-                      {key === 'WOB' && ' klbs'}  
-                      {key === 'ROP' && ' ft/hr'}
-                      {key === 'TEMP' && '°C'}
-                      {key === 'BIT_SIZE' && '"'}
-                    </p>
+                {parameterFields.filter((field) => parameters[field.name] !== undefined).map((field) => (
+                  <div key={field.name} className="space-y-1">
+                    <p className="text-label">{field.label}</p>
+                    <p className="font-medium">{formatFieldValue(field, parameters[field.name])}</p>
                   </div>
                 ))}
               </div>
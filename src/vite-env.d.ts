@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DEM_BASE_URL?: string;
+  readonly VITE_DEM_REGION?: string;
+  readonly VITE_DEM_TRANSPORT?: "http" | "mock" | "fixture";
+}